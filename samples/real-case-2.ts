@@ -1,6 +1,6 @@
-import { QueueManager, createPlayer, createTeam } from '../src/queue-management'
+import { QueueManager, createPlayer, createTeam, consoleLogger } from '../src/queue-management'
 
-const management = new QueueManager();
+const management = new QueueManager(1, 20, { logger: consoleLogger });
 
 // Lara & César 15 X 10 Maju & Elyel
 // Lara & César 15 X 11 Mylka & Cassi
@@ -1,6 +1,6 @@
-import { QueueManager, createPlayer, createTeam } from '../src/queue-management'
+import { QueueManager, createPlayer, createTeam, consoleLogger } from '../src/queue-management'
 
-const management = new QueueManager(2);
+const management = new QueueManager(2, 20, { logger: consoleLogger });
 
 console.log('Queue Management System initialized.');
 
@@ -0,0 +1,54 @@
+import { QueueManager, createPlayer, createTeam } from '../src/queue-management'
+
+// Undo history cost in a long session: 2 courts, 12 teams, 200 matches, 20 undo steps.
+// "Full snapshots" is what undo used to do: serialize the whole state (match history included)
+// before every action, and save each of those strings again in saveState().
+
+const MATCHES = 200
+const UNDO_STEPS = 20
+
+const teams = Array.from({ length: 12 }, (_, i) =>
+  createTeam(createPlayer(i * 2 + 1, `P${i * 2 + 1}`), createPlayer(i * 2 + 2, `P${i * 2 + 2}`))
+)
+
+const management = new QueueManager(2, UNDO_STEPS)
+management.initialize(teams)
+
+const fullSnapshots: string[] = []
+let fullSnapshotMs = 0
+let actionMs = 0
+
+for (let i = 0; i < MATCHES; i++) {
+  const courtId = (i % 2) + 1
+  const scores = i % 3 === 0 ? { team1Score: 15, team2Score: 12 } : { team1Score: 10, team2Score: 15 }
+
+  let start = performance.now()
+  fullSnapshots.push(JSON.stringify({ state: management.getCurrentState(), matchCounter: i }))
+  fullSnapshotMs += performance.now() - start
+  if (fullSnapshots.length > UNDO_STEPS) {
+    fullSnapshots.shift()
+  }
+
+  start = performance.now()
+  management.recordResult(courtId, scores)
+  actionMs += performance.now() - start
+}
+
+let start = performance.now()
+const saved = management.saveState()
+const saveMs = performance.now() - start
+const { undoStack, redoStack, ...rest } = JSON.parse(saved)
+const fullSnapshotSave = JSON.stringify({ ...rest, undoStack: fullSnapshots, redoStack })
+
+start = performance.now()
+for (let i = 0; i < UNDO_STEPS; i++) {
+  management.undo()
+}
+const undoMs = performance.now() - start
+
+const kb = (text: string) => `${(text.length / 1024).toFixed(1)} KB`
+
+console.log(`${MATCHES} matches, ${UNDO_STEPS} undo steps`)
+console.log(`Cost per action:          ${(fullSnapshotMs / MATCHES).toFixed(3)} ms for a full snapshot alone, ${(actionMs / MATCHES).toFixed(3)} ms for a whole recordResult now`)
+console.log(`saveState() size:         ${kb(fullSnapshotSave)} with full snapshots, ${kb(saved)} now (${saveMs.toFixed(1)} ms)`)
+console.log(`Undo ${UNDO_STEPS} steps:             ${undoMs.toFixed(1)} ms`)
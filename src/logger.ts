@@ -0,0 +1,15 @@
+import { type Logger } from './types';
+
+/**
+ * Logger that discards every message (the QueueManager default)
+ */
+export const silentLogger: Logger = {
+  log: () => {}
+};
+
+/**
+ * Logger that prints every message with console.log
+ */
+export const consoleLogger: Logger = {
+  log: message => console.log(message)
+};
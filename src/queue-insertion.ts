@@ -0,0 +1,59 @@
+import { type InsertionPolicy, type Team, QueueManagementError } from './types';
+
+/**
+ * Information used to place a team in the queue
+ */
+export interface InsertionContext {
+  /** Number of matches a team has played in this session */
+  gamesPlayed: (team: Team) => number;
+  /** Total time a team has spent waiting in the queue in this session (milliseconds) */
+  waitTime: (team: Team) => number;
+}
+
+/**
+ * Validate an insertion policy
+ * @throws {QueueManagementError} if the policy type is unknown or its options are invalid
+ */
+export function validateInsertionPolicy(policy: InsertionPolicy): void {
+  switch (policy.type) {
+    case 'append':
+    case 'games-played':
+    case 'wait-time':
+      return;
+    case 'after-next':
+      if (!Number.isInteger(policy.teams) || policy.teams < 0) {
+        throw new QueueManagementError(`Invalid teams: ${policy.teams}. Number of teams to skip must be a non-negative integer`);
+      }
+      return;
+    default:
+      throw new QueueManagementError(`Unknown insertion policy: ${(policy as { type: string }).type}`);
+  }
+}
+
+/**
+ * Find where a team joining the back of the queue should be inserted
+ * - 'append': at the end of the queue
+ * - 'games-played': ahead of every team that has played more games
+ * - 'wait-time': ahead of every team that has waited less in total
+ * - 'after-next': right after the next `teams` teams
+ * Ties keep arrival order, so equal teams are never overtaken.
+ * @returns The index at which to insert the team
+ */
+export function getInsertionIndex(queue: Team[], team: Team, policy: InsertionPolicy, context: InsertionContext): number {
+  switch (policy.type) {
+    case 'games-played': {
+      const games = context.gamesPlayed(team);
+      const index = queue.findIndex(queued => context.gamesPlayed(queued) > games);
+      return index === -1 ? queue.length : index;
+    }
+    case 'wait-time': {
+      const waited = context.waitTime(team);
+      const index = queue.findIndex(queued => context.waitTime(queued) < waited);
+      return index === -1 ? queue.length : index;
+    }
+    case 'after-next':
+      return Math.min(policy.teams, queue.length);
+    default:
+      return queue.length;
+  }
+}
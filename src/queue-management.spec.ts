@@ -1,20 +1,68 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import {
   QueueManager,
   areTeamsEqual,
   createTeam,
-  createPlayer
+  createPlayer,
+  createRotationPolicy,
+  createEveryoneRotatesPolicy,
+  createKingOfTheCourtPolicy,
+  createWinnerStaysPolicy,
+  registerRotationPolicy,
+  consoleLogger,
+  silentLogger,
+  replay,
+  SAVE_FORMAT_VERSION,
+  createMemoryStorage,
+  createFileStorage
 } from './queue-management';
 import {
   Team,
+  RotationPolicy,
+  InsertionPolicy,
+  QueueManagerEventName,
+  PointEvent,
+  SessionCommand,
+  SaveData,
+  QueueManagerOptions,
+  QueueManagementError,
   InsufficientTeamsError,
   InvalidMatchResultError,
   NoActiveMatchError,
   CourtNotFoundError,
+  TeamNotFoundError,
   InvalidQueueIndexError,
-  InvalidMatchIndexError
+  InvalidMatchIndexError,
+  InvalidScoringFormatError,
+  InvalidSaveStateError
 } from './types';
 
+/**
+ * Create teams of consecutively numbered players: P1/P2, P3/P4, ... or, lettered, A1/A2, B1/B2, ...
+ */
+function makeTeams(count: number, naming: 'numbered' | 'lettered' = 'numbered'): Team[] {
+  return Array.from({ length: count }, (_, i) => {
+    const name = (n: number) => (naming === 'lettered' ? `${String.fromCharCode(65 + i)}${n}` : `P${i * 2 + n}`);
+    return createTeam(createPlayer(i * 2 + 1, name(1)), createPlayer(i * 2 + 2, name(2)));
+  });
+}
+
+/**
+ * Start a session on one court: Alice/Bob (team1) play Charlie/Diana (team2) while Eve/Frank (team3) wait
+ */
+function setupMatch(options: QueueManagerOptions = {}) {
+  const [alice, bob, charlie, diana, eve, frank] = ['Alice', 'Bob', 'Charlie', 'Diana', 'Eve', 'Frank'].map((name, i) => createPlayer(i + 1, name));
+  const team1 = createTeam(alice, bob);
+  const team2 = createTeam(charlie, diana);
+  const team3 = createTeam(eve, frank);
+  const manager = new QueueManager(1, 20, options);
+  manager.initialize([team1, team2, team3]);
+  return { manager, team1, team2, team3, alice, bob, charlie, diana };
+}
+
 describe('Queue Management System', () => {
   describe('Initialization', () => {
     it('should throw error with insufficient teams (0 teams)', () => {
@@ -1034,6 +1082,22 @@ describe('Queue Management System', () => {
       expect(match?.currentScores?.team1).toBe(0);
     });
 
+    it('should reject a score change that is not an integer', () => {
+      const manager = new QueueManager(1);
+      const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+
+      manager.initialize([team1, team2]);
+      manager.updateScore(1, 1, 3);
+
+      for (const delta of [NaN, Infinity, -Infinity, 0.5]) {
+        expect(() => manager.updateScore(1, 1, delta)).toThrow(InvalidMatchResultError);
+      }
+      expect(manager.getCourtMatch(1)!.currentScores).toEqual({ team1: 3, team2: 0 });
+      expect(manager.getCourtMatch(1)!.events).toHaveLength(1);
+      expect(manager.getSessionLog().commands.filter(command => command.type === 'updateScore')).toHaveLength(1);
+    });
+
     it('should update scores independently for each team', () => {
       const manager = new QueueManager(1);
       const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
@@ -1517,15 +1581,13 @@ describe('Queue Management System', () => {
       
       const undoDepthBefore = manager.getUndoDepth();
       
-      // This is a no-op, should still save snapshot (based on implementation)
+      // This is a no-op: nothing to undo
       manager.reorderTeamInQueue(0, 0);
       
-      // Note: current implementation saves snapshot before checking if no-op
-      // This test documents current behavior
-      expect(manager.getUndoDepth()).toBe(undoDepthBefore + 1);
+      expect(manager.getUndoDepth()).toBe(undoDepthBefore);
     });
 
-    it('should exclude currentScores from undo/redo snapshots', () => {
+    it('should keep currentScores in undo/redo snapshots', () => {
       const manager = new QueueManager(1);
       const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
       const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
@@ -1533,7 +1595,7 @@ describe('Queue Management System', () => {
       
       manager.initialize([team1, team2, team3]);
       
-      // Update scores - not tracked for undo
+      // Update scores - each point is its own undo step
       manager.updateScore(1, 1, 10);
       manager.updateScore(1, 2, 5);
       
@@ -1541,12 +1603,13 @@ describe('Queue Management System', () => {
       const newTeam = createTeam(createPlayer(7, 'Grace'), createPlayer(8, 'Henry'));
       manager.addTeams([newTeam]);
       
-      // Now undo - scores should not be in the restored state
+      // Now undo - live scores at the time of the snapshot are restored
       manager.undo();
       
       const match = manager.getCourtMatch(1);
-      // Snapshot excludes currentScores, so after undo they should be undefined
-      expect(match?.currentScores).toBeUndefined();
+      expect(match?.currentScores).toEqual({ team1: 10, team2: 5 });
+      expect(match?.events?.length).toBe(2);
+      expect(match?.events?.[0].timestamp).toBeInstanceOf(Date);
     });
 
     it('should preserve undo/redo functionality after multiple operations', () => {
@@ -1825,4 +1888,3198 @@ describe('Queue Management System', () => {
       expect(history[0].scores![1].score).toBe(18);
     });
   });
-});
\ No newline at end of file
+
+  describe('Rotation Policy', () => {
+    it('should use the winner-stays policy with a cap of 2 by default', () => {
+      const manager = new QueueManager(1);
+      const policy = manager.getRotationPolicy();
+
+      expect(policy.type).toBe('winner-stays');
+      expect(policy.options).toEqual({ maxConsecutiveWins: 2 });
+    });
+
+    it('should apply a custom consecutive wins cap', () => {
+      const manager = new QueueManager(1, 20, {
+        rotationPolicy: createWinnerStaysPolicy({ maxConsecutiveWins: 3 })
+      });
+      const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      const team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+      const team4 = createTeam(createPlayer(7, 'Grace'), createPlayer(8, 'Henry'));
+      const team5 = createTeam(createPlayer(9, 'Ivy'), createPlayer(10, 'Jack'));
+
+      manager.initialize([team1, team2, team3, team4, team5]);
+      manager.recordResult(1, { 15: team1, 10: team2 });
+      manager.recordResult(1, { 15: team1, 10: team3 });
+
+      // Still on court after 2 wins
+      let state = manager.getCurrentState();
+      expect(state.courts[0].consecutiveWins).toBe(2);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team1, team1)).toBe(true);
+
+      manager.recordResult(1, { 15: team1, 10: team4 });
+
+      // Third win sends both teams to the queue
+      state = manager.getCurrentState();
+      expect(state.courts[0].consecutiveWins).toBe(0);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team1, team5)).toBe(true);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team2, team2)).toBe(true);
+      expect(areTeamsEqual(state.queue[state.queue.length - 2], team1)).toBe(true);
+      expect(areTeamsEqual(state.queue[state.queue.length - 1], team4)).toBe(true);
+    });
+
+    it('should send both teams off after every win with a cap of 1', () => {
+      const manager = new QueueManager(1, 20, {
+        rotationPolicy: createWinnerStaysPolicy({ maxConsecutiveWins: 1 })
+      });
+      const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      const team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+      const team4 = createTeam(createPlayer(7, 'Grace'), createPlayer(8, 'Henry'));
+
+      manager.initialize([team1, team2, team3, team4]);
+      manager.recordResult(1, { 15: team1, 10: team2 });
+
+      const state = manager.getCurrentState();
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team1, team3)).toBe(true);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team2, team4)).toBe(true);
+      expect(areTeamsEqual(state.queue[0], team1)).toBe(true);
+      expect(areTeamsEqual(state.queue[1], team2)).toBe(true);
+    });
+
+    it('should never rotate the winner off with an unlimited cap', () => {
+      const manager = new QueueManager(1, 20, {
+        rotationPolicy: createWinnerStaysPolicy({ maxConsecutiveWins: null })
+      });
+      const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      const team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+      const team4 = createTeam(createPlayer(7, 'Grace'), createPlayer(8, 'Henry'));
+
+      manager.initialize([team1, team2, team3, team4]);
+      manager.recordResult(1, { 15: team1, 10: team2 });
+      manager.recordResult(1, { 15: team1, 10: team3 });
+      manager.recordResult(1, { 15: team1, 10: team4 });
+
+      const state = manager.getCurrentState();
+      expect(state.courts[0].consecutiveWins).toBe(3);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team1, team1)).toBe(true);
+    });
+
+    it('should reject an invalid consecutive wins cap', () => {
+      expect(() => createWinnerStaysPolicy({ maxConsecutiveWins: 0 })).toThrow(QueueManagementError);
+      expect(() => createWinnerStaysPolicy({ maxConsecutiveWins: 1.5 })).toThrow(QueueManagementError);
+    });
+
+    it('should accept a custom policy object', () => {
+      const loserFirst: RotationPolicy = {
+        type: 'loser-first',
+        options: {},
+        decide: ({ winner, loser }) => ({ stays: winner, toQueueFront: [loser], toQueueBack: [] })
+      };
+      const manager = new QueueManager(1, 20, { rotationPolicy: loserFirst });
+      const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      const team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+
+      manager.initialize([team1, team2, team3]);
+      manager.recordResult(1, { 15: team1, 10: team2 });
+
+      // Loser jumps the queue and plays again immediately
+      const state = manager.getCurrentState();
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team2, team2)).toBe(true);
+      expect(areTeamsEqual(state.queue[0], team3)).toBe(true);
+    });
+
+    it('should throw when a policy drops a team', () => {
+      const broken: RotationPolicy = {
+        type: 'broken',
+        options: {},
+        decide: ({ winner }) => ({ stays: winner, toQueueFront: [], toQueueBack: [] })
+      };
+      const manager = new QueueManager(1, 20, { rotationPolicy: broken });
+      const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      const team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+
+      manager.initialize([team1, team2, team3]);
+
+      expect(() => manager.recordResult(1, { 15: team1, 10: team2 })).toThrow(QueueManagementError);
+    });
+
+    it('should change the policy mid-session', () => {
+      const manager = new QueueManager(1);
+      const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      const team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+      const team4 = createTeam(createPlayer(7, 'Grace'), createPlayer(8, 'Henry'));
+
+      manager.initialize([team1, team2, team3, team4]);
+      manager.setRotationPolicy(createWinnerStaysPolicy({ maxConsecutiveWins: 1 }));
+      manager.recordResult(1, { 15: team1, 10: team2 });
+
+      expect(manager.getCurrentState().courts[0].consecutiveWins).toBe(0);
+    });
+
+    it('should save and load the rotation policy', () => {
+      const manager = new QueueManager(1, 20, {
+        rotationPolicy: createWinnerStaysPolicy({ maxConsecutiveWins: 3 })
+      });
+      const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      const team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+
+      manager.initialize([team1, team2, team3]);
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+
+      expect(newManager.getRotationPolicy().type).toBe('winner-stays');
+      expect(newManager.getRotationPolicy().options).toEqual({ maxConsecutiveWins: 3 });
+    });
+
+    it('should save and load an unlimited cap', () => {
+      const manager = new QueueManager(1, 20, {
+        rotationPolicy: createWinnerStaysPolicy({ maxConsecutiveWins: null })
+      });
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+
+      expect(newManager.getRotationPolicy().options).toEqual({ maxConsecutiveWins: null });
+    });
+
+    it('should reject saved policy options of the wrong type', () => {
+      expect(() => createRotationPolicy({ type: 'winner-stays', options: { maxConsecutiveWins: '3' } })).toThrow(QueueManagementError);
+      expect(() => createRotationPolicy({ type: 'challenger-court', options: { maxConsecutiveWins: true } })).toThrow(QueueManagementError);
+      expect(createRotationPolicy({ type: 'challenger-court', options: {} }).options).toEqual({ maxConsecutiveWins: 2 });
+    });
+
+    it('should rebuild registered custom policies on load', () => {
+      registerRotationPolicy('test-always-rotate', () => ({
+        type: 'test-always-rotate',
+        options: {},
+        decide: ({ winner, loser }) => ({ stays: null, toQueueFront: [], toQueueBack: [winner, loser] })
+      }));
+      const manager = new QueueManager(1, 20, {
+        rotationPolicy: createRotationPolicy({ type: 'test-always-rotate' })
+      });
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+
+      expect(newManager.getRotationPolicy().type).toBe('test-always-rotate');
+    });
+
+    it('should fail to load a state with an unknown policy', () => {
+      const manager = new QueueManager(1);
+      const saved = JSON.parse(manager.saveState());
+      saved.rotationPolicy = { type: 'does-not-exist' };
+
+      expect(() => manager.loadState(JSON.stringify(saved))).toThrow('Unknown rotation policy');
+    });
+  });
+
+  describe('Game Modes', () => {
+    it('should show the default mode of each court in the current state', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(makeTeams(4));
+
+      const state = manager.getCurrentState();
+      expect(state.courts[0].mode).toEqual({ type: 'winner-stays', options: { maxConsecutiveWins: 2 } });
+      expect(state.courts[1].mode).toEqual({ type: 'winner-stays', options: { maxConsecutiveWins: 2 } });
+    });
+
+    it('should send both teams to the end of the queue in everyone-rotates mode', () => {
+      const manager = new QueueManager(1);
+      const [team1, team2, team3, team4, team5] = makeTeams(5);
+
+      manager.initialize([team1, team2, team3, team4, team5]);
+      manager.setCourtMode(1, 'everyone-rotates');
+      manager.recordResult(1, { 15: team1, 10: team2 });
+
+      const state = manager.getCurrentState();
+      expect(state.courts[0].mode?.type).toBe('everyone-rotates');
+      expect(state.courts[0].consecutiveWins).toBe(0);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team1, team3)).toBe(true);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team2, team4)).toBe(true);
+      expect(state.queue.map(t => t.player1.id)).toEqual([team5, team1, team2].map(t => t.player1.id));
+    });
+
+    it('should keep the winner on court forever in king-of-the-court mode', () => {
+      const manager = new QueueManager(1);
+      const [team1, team2, team3, team4] = makeTeams(4);
+
+      manager.initialize([team1, team2, team3, team4]);
+      manager.setCourtMode(1, 'king-of-the-court');
+      manager.recordResult(1, { 15: team1, 10: team2 });
+      manager.recordResult(1, { 15: team1, 10: team3 });
+      manager.recordResult(1, { 15: team1, 10: team4 });
+
+      const state = manager.getCurrentState();
+      expect(state.courts[0].consecutiveWins).toBe(3);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team1, team1)).toBe(true);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team2, team2)).toBe(true);
+    });
+
+    it('should give the loser priority when the winner leaves in challenger-court mode', () => {
+      const manager = new QueueManager(1);
+      const [team1, team2, team3, team4, team5] = makeTeams(5);
+
+      manager.initialize([team1, team2, team3, team4, team5]);
+      manager.setCourtMode(1, 'challenger-court', { maxConsecutiveWins: 2 });
+
+      // First win: normal winner stays, loser to the back
+      manager.recordResult(1, { 15: team1, 10: team2 });
+      let state = manager.getCurrentState();
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team2, team3)).toBe(true);
+      expect(areTeamsEqual(state.queue[state.queue.length - 1], team2)).toBe(true);
+
+      // Second win: winner leaves, loser jumps to the head of the queue
+      manager.recordResult(1, { 15: team1, 10: team3 });
+      state = manager.getCurrentState();
+      expect(state.courts[0].consecutiveWins).toBe(0);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team1, team3)).toBe(true);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team2, team4)).toBe(true);
+      expect(state.queue.map(t => t.player1.id)).toEqual([team5, team2, team1].map(t => t.player1.id));
+    });
+
+    it('should apply modes independently per court', () => {
+      const manager = new QueueManager(2);
+      const teams = makeTeams(6);
+
+      manager.initialize(teams);
+      manager.setCourtMode(2, 'everyone-rotates');
+
+      manager.recordResult(1, { 15: teams[0], 10: teams[1] });
+      manager.recordResult(2, { 15: teams[2], 10: teams[3] });
+
+      const state = manager.getCurrentState();
+      expect(state.courts[0].mode?.type).toBe('winner-stays');
+      expect(state.courts[1].mode?.type).toBe('everyone-rotates');
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team1, teams[0])).toBe(true);
+      expect(areTeamsEqual(state.courts[1].currentMatch!.team1, teams[2])).toBe(false);
+    });
+
+    it('should fall back to the manager policy when the mode is cleared', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(makeTeams(3));
+
+      manager.setCourtMode(1, 'king-of-the-court');
+      manager.setCourtMode(1, null);
+
+      expect(manager.getCurrentState().courts[0].mode?.type).toBe('winner-stays');
+    });
+
+    it('should throw for an unknown court or invalid mode options', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(makeTeams(3));
+
+      expect(() => manager.setCourtMode(2, 'everyone-rotates')).toThrow(CourtNotFoundError);
+      expect(() => manager.setCourtMode(1, 'challenger-court', { maxConsecutiveWins: 0 })).toThrow(QueueManagementError);
+    });
+
+    it('should undo a mode change', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(makeTeams(3));
+
+      manager.setCourtMode(1, 'king-of-the-court');
+      expect(manager.undo()).toBe(true);
+
+      expect(manager.getCurrentState().courts[0].mode?.type).toBe('winner-stays');
+    });
+
+    it('should save and load court modes', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(makeTeams(3));
+      manager.setCourtMode(1, 'challenger-court', { maxConsecutiveWins: 3 });
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+
+      expect(newManager.getCurrentState().courts[0].mode).toEqual({
+        type: 'challenger-court',
+        options: { maxConsecutiveWins: 3 }
+      });
+    });
+  });
+
+  describe('Explicit Score API', () => {
+    const reasonOf = (fn: () => void): string | undefined => {
+      try {
+        fn();
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidMatchResultError);
+        return (error as InvalidMatchResultError).reason;
+      }
+      return undefined;
+    };
+
+    it('should record a result with scores aligned to team1/team2', () => {
+      const { manager, team1, team2 } = setupMatch();
+
+      manager.recordResult(1, { team1Score: 12, team2Score: 15 });
+
+      const [result] = manager.getMatchHistory();
+      expect(areTeamsEqual(result.winner, team2)).toBe(true);
+      expect(areTeamsEqual(result.loser, team1)).toBe(true);
+      expect(result.scores![0].score).toBe(15);
+      expect(result.scores![1].score).toBe(12);
+    });
+
+    it('should resolve a tied score with a tie-break winner', () => {
+      const { manager, team1 } = setupMatch();
+
+      manager.recordResult(1, { team1Score: 13, team2Score: 13, tieBreakWinner: 1 });
+
+      const [result] = manager.getMatchHistory();
+      expect(areTeamsEqual(result.winner, team1)).toBe(true);
+      expect(result.scores![0].score).toBe(13);
+      expect(result.scores![1].score).toBe(13);
+    });
+
+    it('should reject a tied score without a tie-break winner', () => {
+      const { manager } = setupMatch();
+
+      expect(reasonOf(() => manager.recordResult(1, { team1Score: 13, team2Score: 13 }))).toBe('TIED_SCORE');
+    });
+
+    it('should reject negative, NaN and fractional scores', () => {
+      const { manager } = setupMatch();
+
+      expect(reasonOf(() => manager.recordResult(1, { team1Score: -1, team2Score: 15 }))).toBe('INVALID_SCORE');
+      expect(reasonOf(() => manager.recordResult(1, { team1Score: NaN, team2Score: 15 }))).toBe('INVALID_SCORE');
+      expect(reasonOf(() => manager.recordResult(1, { team1Score: 15, team2Score: 12.5 }))).toBe('INVALID_SCORE');
+      expect(reasonOf(() => manager.recordResult(1, { team1Score: Infinity, team2Score: 12 }))).toBe('INVALID_SCORE');
+    });
+
+    it('should reject an invalid or contradicting tie-break winner', () => {
+      const { manager } = setupMatch();
+
+      expect(reasonOf(() => manager.recordResult(1, { team1Score: 13, team2Score: 13, tieBreakWinner: 3 as 1 }))).toBe('INVALID_TIE_BREAK');
+      expect(reasonOf(() => manager.recordResult(1, { team1Score: 15, team2Score: 10, tieBreakWinner: 2 }))).toBe('INVALID_TIE_BREAK');
+    });
+
+    it('should keep supporting the score map signature with reason codes', () => {
+      const { manager, team1, team2, team3 } = setupMatch();
+
+      expect(reasonOf(() => manager.recordResult(1, { 13: team1 }))).toBe('TEAM_COUNT');
+      expect(reasonOf(() => manager.recordResult(1, { 15: team3, 10: team1 }))).toBe('TEAM_MISMATCH');
+      expect(reasonOf(() => manager.recordResult(1, { 15: team1, 10: team1 }))).toBe('TEAM_MISMATCH');
+      expect(reasonOf(() => manager.recordResult(1, { 15: team1, [-2]: team2 }))).toBe('INVALID_SCORE');
+
+      manager.recordResult(1, { 15: team1, 10: team2 });
+      expect(manager.getMatchHistory().length).toBe(1);
+    });
+
+    it('should default the reason code for generic errors', () => {
+      expect(new InvalidMatchResultError().reason).toBe('INVALID_RESULT');
+    });
+
+    it('should reject invalid scores when editing a match', () => {
+      const { manager, team1, team2 } = setupMatch();
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(reasonOf(() => manager.editMatchResult(0, [
+        { team: team1, score: 15 },
+        { team: team2, score: -3 }
+      ]))).toBe('INVALID_SCORE');
+      expect(reasonOf(() => manager.editMatchResult(0, [
+        { team: team1, score: 15 },
+        { team: team2, score: 15 }
+      ]))).toBe('TIED_SCORE');
+    });
+  });
+
+  describe('Scoring Format', () => {
+    let teams: Team[];
+
+    beforeEach(() => {
+      teams = makeTeams(5);
+    });
+
+    it('should not check scores when no format is configured', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+
+      manager.recordResult(1, { team1Score: 3, team2Score: 1 });
+
+      expect(manager.getScoringFormat()).toBeNull();
+      expect(manager.getMatchHistory().length).toBe(1);
+    });
+
+    it('should reject impossible results under the session format', () => {
+      const manager = new QueueManager(2, 20, { scoringFormat: { target: 15, winBy: 2, cap: 17 } });
+      manager.initialize(teams);
+
+      try {
+        manager.recordResult(1, { team1Score: 15, team2Score: 14 });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidMatchResultError);
+        expect((error as InvalidMatchResultError).reason).toBe('IMPOSSIBLE_SCORE');
+      }
+
+      manager.recordResult(1, { team1Score: 17, team2Score: 16 });
+      expect(manager.getMatchHistory()[0].scores![0].score).toBe(17);
+    });
+
+    it('should validate the session format', () => {
+      expect(() => new QueueManager(1, 20, { scoringFormat: { target: 0 } })).toThrow(InvalidScoringFormatError);
+    });
+
+    it('should let a court override the session format', () => {
+      const manager = new QueueManager(2, 20, { scoringFormat: { target: 15, winBy: 2, cap: 17 } });
+      manager.initialize(teams);
+
+      manager.setCourtScoringFormat(2, { target: 21 });
+
+      expect(manager.getCurrentState().courts[0].scoringFormat).toEqual({ target: 15, winBy: 2, cap: 17 });
+      expect(manager.getCurrentState().courts[1].scoringFormat).toEqual({ target: 21 });
+      expect(() => manager.recordResult(2, { 15: teams[2], 10: teams[3] })).toThrow(InvalidMatchResultError);
+      manager.recordResult(2, { 21: teams[2], 10: teams[3] });
+    });
+
+    it('should check edited results against the format of the court', () => {
+      const manager = new QueueManager(2, 20, { scoringFormat: { target: 15, winBy: 2 } });
+      manager.initialize(teams);
+      manager.recordResult(1, { 15: teams[0], 10: teams[1] });
+
+      expect(() => manager.editMatchResult(0, [
+        { team: teams[0], score: 20 },
+        { team: teams[1], score: 10 }
+      ])).toThrow(InvalidMatchResultError);
+
+      manager.editMatchResult(0, [
+        { team: teams[0], score: 16 },
+        { team: teams[1], score: 14 }
+      ]);
+      expect(manager.getMatchHistory()[0].scores![0].score).toBe(16);
+    });
+
+    it('should report when a live score reaches a legal end state', () => {
+      const manager = new QueueManager(2, 20, { scoringFormat: { target: 3, winBy: 2 } });
+      manager.initialize(teams);
+
+      expect(manager.updateScore(1, 1, 2)).toBe(false);
+      expect(manager.updateScore(1, 2, 2)).toBe(false);
+      expect(manager.updateScore(1, 1, 1)).toBe(false);
+      expect(manager.updateScore(1, 1, 1)).toBe(true);
+    });
+
+    it('should never report a finished live score without a format', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+
+      expect(manager.updateScore(1, 1, 50)).toBe(false);
+    });
+
+    it('should undo a court format change and persist formats', () => {
+      const manager = new QueueManager(2, 20, { scoringFormat: { target: 15 } });
+      manager.initialize(teams);
+
+      manager.setCourtScoringFormat(1, { target: 11 });
+      const saved = manager.saveState();
+      manager.undo();
+      expect(manager.getCurrentState().courts[0].scoringFormat).toEqual({ target: 15 });
+
+      const newManager = new QueueManager(2);
+      newManager.loadState(saved);
+      expect(newManager.getScoringFormat()).toEqual({ target: 15 });
+      expect(newManager.getCurrentState().courts[0].scoringFormat).toEqual({ target: 11 });
+    });
+  });
+
+  describe('Best-of-N Sets', () => {
+    const bestOfThree: QueueManagerOptions = {
+      scoringFormat: { target: 21, winBy: 2, bestOf: 3, decidingSetTarget: 15 }
+    };
+
+    it('should keep the match on court until a team wins enough sets', () => {
+      const { manager } = setupMatch(bestOfThree);
+
+      expect(manager.recordSetResult(1, { team1Score: 21, team2Score: 18 })).toBe(false);
+
+      const match = manager.getCourtMatch(1);
+      expect(match?.sets).toEqual([{ team1: 21, team2: 18 }]);
+      expect(manager.getMatchHistory().length).toBe(0);
+    });
+
+    it('should derive the winner from sets won', () => {
+      const { manager, team1, team2, team3 } = setupMatch(bestOfThree);
+
+      manager.recordSetResult(1, { team1Score: 21, team2Score: 10 });
+      manager.recordSetResult(1, { team1Score: 19, team2Score: 21 });
+      expect(manager.recordSetResult(1, { team1Score: 13, team2Score: 15 })).toBe(true);
+
+      const [result] = manager.getMatchHistory();
+      expect(areTeamsEqual(result.winner, team2)).toBe(true);
+      expect(areTeamsEqual(result.loser, team1)).toBe(true);
+      expect(result.match.sets).toEqual([
+        { team1: 21, team2: 10 },
+        { team1: 19, team2: 21 },
+        { team1: 13, team2: 15 }
+      ]);
+      // Scores hold total points, even when the winner scored fewer of them
+      expect(result.scores![0].score).toBe(46);
+      expect(result.scores![1].score).toBe(53);
+
+      // Queue rotates as usual
+      const match = manager.getCourtMatch(1);
+      expect(areTeamsEqual(match!.team1, team2)).toBe(true);
+      expect(areTeamsEqual(match!.team2, team3)).toBe(true);
+      expect(match?.sets).toBeUndefined();
+    });
+
+    it('should finish a best-of-3 in two straight sets', () => {
+      const { manager } = setupMatch(bestOfThree);
+
+      manager.recordSetResult(1, { team1Score: 21, team2Score: 10 });
+      expect(manager.recordSetResult(1, { team1Score: 21, team2Score: 12 })).toBe(true);
+      expect(manager.getMatchHistory().length).toBe(1);
+    });
+
+    it('should validate each set against the scoring format', () => {
+      const { manager } = setupMatch(bestOfThree);
+
+      expect(() => manager.recordSetResult(1, { team1Score: 21, team2Score: 20 })).toThrow(InvalidMatchResultError);
+      expect(() => manager.recordSetResult(1, { team1Score: 15, team2Score: 15 })).toThrow(InvalidMatchResultError);
+
+      manager.recordSetResult(1, { team1Score: 21, team2Score: 10 });
+      manager.recordSetResult(1, { team1Score: 10, team2Score: 21 });
+
+      // Deciding set is played to 15
+      expect(() => manager.recordSetResult(1, { team1Score: 21, team2Score: 10 })).toThrow(InvalidMatchResultError);
+      manager.recordSetResult(1, { team1Score: 15, team2Score: 10 });
+    });
+
+    it('should require set results on a best-of-N court', () => {
+      const { manager } = setupMatch(bestOfThree);
+
+      expect(() => manager.recordResult(1, { team1Score: 21, team2Score: 10 })).toThrow(InvalidMatchResultError);
+    });
+
+    it('should detect the end of the set in progress from live scores', () => {
+      const { manager } = setupMatch(bestOfThree);
+      manager.recordSetResult(1, { team1Score: 21, team2Score: 10 });
+      manager.recordSetResult(1, { team1Score: 10, team2Score: 21 });
+
+      expect(manager.updateScore(1, 1, 14)).toBe(false);
+      expect(manager.updateScore(1, 1, 1)).toBe(true);
+    });
+
+    it('should report sets won and lost in team statistics', () => {
+      const { manager, team1, team2 } = setupMatch(bestOfThree);
+
+      manager.recordSetResult(1, { team1Score: 21, team2Score: 10 });
+      manager.recordSetResult(1, { team1Score: 19, team2Score: 21 });
+      manager.recordSetResult(1, { team1Score: 15, team2Score: 13 });
+
+      const stats = manager.getTeamStatistics();
+      const team1Stats = stats.find(s => areTeamsEqual(s.team, team1))!;
+      const team2Stats = stats.find(s => areTeamsEqual(s.team, team2))!;
+      expect(team1Stats.setsWon).toBe(2);
+      expect(team1Stats.setsLost).toBe(1);
+      expect(team1Stats.totalPoints).toBe(55);
+      expect(team1Stats.pointsAgainst).toBe(44);
+      expect(team2Stats.setsWon).toBe(1);
+      expect(team2Stats.setsLost).toBe(2);
+    });
+
+    it('should count single-game matches as one set', () => {
+      const manager = new QueueManager(1);
+      const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      manager.initialize([team1, team2]);
+
+      manager.recordResult(1, { 15: team1, 10: team2 });
+
+      const [winnerStats, loserStats] = manager.getTeamStatistics();
+      expect(winnerStats.setsWon).toBe(1);
+      expect(winnerStats.setsLost).toBe(0);
+      expect(loserStats.setsLost).toBe(1);
+    });
+
+    it('should undo a set result', () => {
+      const { manager } = setupMatch(bestOfThree);
+
+      manager.recordSetResult(1, { team1Score: 21, team2Score: 10 });
+      manager.undo();
+
+      expect(manager.getCourtMatch(1)?.sets).toBeUndefined();
+    });
+
+    it('should not edit a match played in sets as a single game', () => {
+      const { manager, team1, team2 } = setupMatch(bestOfThree);
+      manager.recordSetResult(1, { team1Score: 21, team2Score: 10 });
+      manager.recordSetResult(1, { team1Score: 21, team2Score: 10 });
+
+      expect(() => manager.editMatchResult(0, [
+        { team: team1, score: 21 },
+        { team: team2, score: 10 }
+      ])).toThrow(InvalidMatchResultError);
+    });
+  });
+
+  describe('Point Log', () => {
+    it('should record a timestamped point event for every score change', () => {
+      const { manager } = setupMatch();
+
+      manager.updateScore(1, 1, 1);
+      manager.updateScore(1, 2, 1);
+      manager.updateScore(1, 1, -1);
+
+      const events = manager.getCourtMatch(1)!.events! as PointEvent[];
+      expect(events.map(e => [e.team, e.delta])).toEqual([[1, 1], [2, 1], [1, -1]]);
+      expect(events.every(e => e.type === 'point' && e.set === 0)).toBe(true);
+      expect(events[0].timestamp).toBeInstanceOf(Date);
+    });
+
+    it('should record the applied change when the score is clamped at 0', () => {
+      const { manager } = setupMatch();
+
+      manager.updateScore(1, 1, 2);
+      manager.updateScore(1, 1, -5);
+      manager.updateScore(1, 2, -1);
+
+      const events = manager.getCourtMatch(1)!.events! as PointEvent[];
+      expect(events.map(e => e.delta)).toEqual([2, -2]);
+    });
+
+    it('should undo the last point without touching the session undo history', () => {
+      const { manager } = setupMatch();
+
+      manager.updateScore(1, 1, 1);
+      manager.updateScore(1, 2, 1);
+
+      expect(manager.undoLastPoint(1)).toBe(true);
+
+      const match = manager.getCourtMatch(1)!;
+      expect(match.currentScores).toEqual({ team1: 1, team2: 0 });
+      expect(match.events!.length).toBe(1);
+      expect(manager.getUndoDepth()).toBe(2);
+    });
+
+    it('should return false when there is no point to undo', () => {
+      const { manager } = setupMatch();
+
+      expect(manager.undoLastPoint(1)).toBe(false);
+      expect(() => manager.undoLastPoint(2)).toThrow(CourtNotFoundError);
+    });
+
+    it('should keep the point log of finished matches in the history', () => {
+      const { manager } = setupMatch();
+
+      manager.updateScore(1, 1, 1);
+      manager.updateScore(1, 1, 1);
+      manager.recordResult(1, { team1Score: 2, team2Score: 0 });
+
+      expect(manager.getMatchHistory()[0].match.events!.length).toBe(2);
+      expect(manager.getCourtMatch(1)!.events).toBeUndefined();
+    });
+
+    it('should only undo points of the set in progress', () => {
+      const { manager } = setupMatch({ scoringFormat: { target: 2, bestOf: 3 } });
+
+      manager.updateScore(1, 1, 2);
+      manager.recordSetResult(1, { team1Score: 2, team2Score: 0 });
+
+      expect(manager.undoLastPoint(1)).toBe(false);
+      manager.updateScore(1, 2, 1);
+      expect(manager.getCourtMatch(1)!.events!.at(-1)!.set).toBe(1);
+    });
+
+    it('should automatically record the result when the target is reached', () => {
+      const { manager, team1, team3 } = setupMatch({ scoringFormat: { target: 3, winBy: 2 }, autoFinish: true });
+
+      manager.updateScore(1, 1, 1);
+      manager.updateScore(1, 1, 1);
+      manager.updateScore(1, 2, 1);
+      expect(manager.getMatchHistory().length).toBe(0);
+
+      expect(manager.updateScore(1, 1, 1)).toBe(true);
+
+      const [result] = manager.getMatchHistory();
+      expect(areTeamsEqual(result.winner, team1)).toBe(true);
+      expect(result.scores!.map(s => s.score)).toEqual([3, 1]);
+      expect(result.match.events!.length).toBe(4);
+      expect(areTeamsEqual(manager.getCourtMatch(1)!.team2, team3)).toBe(true);
+    });
+
+    it('should automatically record sets in best-of-N matches', () => {
+      const { manager } = setupMatch({ scoringFormat: { target: 2, bestOf: 3 }, autoFinish: true });
+
+      manager.updateScore(1, 1, 2);
+      expect(manager.getCourtMatch(1)!.sets).toEqual([{ team1: 2, team2: 0 }]);
+
+      manager.updateScore(1, 1, 2);
+      expect(manager.getMatchHistory().length).toBe(1);
+      expect(manager.getMatchHistory()[0].match.sets!.length).toBe(2);
+    });
+
+    it('should not auto-finish without a scoring format', () => {
+      const { manager } = setupMatch({ autoFinish: true });
+
+      manager.updateScore(1, 1, 30);
+
+      expect(manager.getMatchHistory().length).toBe(0);
+    });
+
+    it('should persist the point log through save/load', () => {
+      const { manager } = setupMatch();
+      manager.updateScore(1, 1, 1);
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+
+      const events = newManager.getCourtMatch(1)!.events!;
+      expect(events.length).toBe(1);
+      expect(events[0].timestamp).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('Serve Tracking', () => {
+    it('should not track serves until a server is set', () => {
+      const { manager } = setupMatch();
+
+      manager.updateScore(1, 1, 1);
+
+      expect(manager.getServe(1)).toBeNull();
+    });
+
+    it('should keep the serve while the serving team wins rallies', () => {
+      const { manager, alice } = setupMatch();
+
+      manager.setServer(1, 1);
+      manager.updateScore(1, 1, 1);
+      manager.updateScore(1, 1, 1);
+
+      expect(manager.getServe(1)?.team).toBe(1);
+      expect(manager.getServe(1)?.player).toEqual(alice);
+    });
+
+    it('should rotate the server on side-out, alternating players within a team', () => {
+      const { manager, alice, bob, charlie, diana } = setupMatch();
+
+      manager.setServer(1, 1, alice);
+      expect(manager.getServe(1)?.sideOut).toEqual({ team: 2, player: charlie });
+
+      manager.updateScore(1, 2, 1); // side-out: Charlie serves
+      expect(manager.getServe(1)).toMatchObject({ team: 2, player: charlie });
+
+      manager.updateScore(1, 1, 1); // side-out: Bob serves (Alice served last time)
+      expect(manager.getServe(1)).toMatchObject({ team: 1, player: bob });
+
+      manager.updateScore(1, 2, 1); // side-out: Diana serves
+      expect(manager.getServe(1)).toMatchObject({ team: 2, player: diana });
+      expect(manager.getServe(1)?.sideOut).toEqual({ team: 1, player: alice });
+    });
+
+    it('should not move the serve on score corrections', () => {
+      const { manager, alice } = setupMatch();
+
+      manager.setServer(1, 1, alice);
+      manager.updateScore(1, 2, 1);
+      manager.updateScore(1, 2, -1);
+
+      expect(manager.getServe(1)?.team).toBe(2);
+    });
+
+    it('should restore the serve when the last point is undone', () => {
+      const { manager, alice } = setupMatch();
+
+      manager.setServer(1, 1, alice);
+      manager.updateScore(1, 2, 1);
+      manager.undoLastPoint(1);
+
+      expect(manager.getServe(1)).toMatchObject({ team: 1, player: alice });
+    });
+
+    it('should reject a server who is not part of the team', () => {
+      const { manager, charlie } = setupMatch();
+
+      expect(() => manager.setServer(1, 1, charlie)).toThrow(QueueManagementError);
+    });
+
+    it('should record side switches every N points', () => {
+      const { manager } = setupMatch({ scoringFormat: { target: 21, winBy: 2, sideSwitchEvery: 7 } });
+
+      for (let i = 0; i < 4; i++) manager.updateScore(1, 1, 1);
+      for (let i = 0; i < 3; i++) manager.updateScore(1, 2, 1);
+
+      const events = manager.getCourtMatch(1)!.events!;
+      const switches = events.filter(e => e.type === 'side-switch');
+      expect(switches.length).toBe(1);
+      expect(switches[0]).toMatchObject({ set: 0, score: { team1: 4, team2: 3 } });
+      expect(events.at(-1)?.type).toBe('side-switch');
+    });
+
+    it('should revert a side switch together with the point that triggered it', () => {
+      const { manager } = setupMatch({ scoringFormat: { target: 21, sideSwitchEvery: 2 } });
+
+      manager.updateScore(1, 1, 1);
+      manager.updateScore(1, 2, 1);
+      manager.undoLastPoint(1);
+
+      const events = manager.getCourtMatch(1)!.events!;
+      expect(events.length).toBe(1);
+      expect(events[0].type).toBe('point');
+    });
+  });
+
+  describe('Player Statistics', () => {
+    it('should return an empty list when no matches have been played', () => {
+      const manager = new QueueManager(1);
+
+      expect(manager.getPlayerStatistics()).toEqual([]);
+    });
+
+    it('should break a player record down per partner', () => {
+      const alice = createPlayer(1, 'Alice');
+      const bob = createPlayer(2, 'Bob');
+      const charlie = createPlayer(3, 'Charlie');
+      const diana = createPlayer(4, 'Diana');
+
+      const manager = new QueueManager(1, 20, {
+        rotationPolicy: createWinnerStaysPolicy({ maxConsecutiveWins: 1 })
+      });
+      manager.initialize([
+        createTeam(alice, bob),
+        createTeam(charlie, diana),
+        createTeam(alice, charlie),
+        createTeam(bob, diana)
+      ]);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 }); // Alice/Bob beat Charlie/Diana
+      manager.recordResult(1, { team1Score: 9, team2Score: 15 });  // Alice/Charlie lose to Bob/Diana
+
+      const aliceStats = manager.getPlayerStatistics().find(s => s.player.id === alice.id)!;
+      expect(aliceStats.gamesPlayed).toBe(2);
+      expect(aliceStats.wins).toBe(1);
+      expect(aliceStats.losses).toBe(1);
+      expect(aliceStats.pointsFor).toBe(24);
+      expect(aliceStats.pointsAgainst).toBe(25);
+      expect(aliceStats.winRate).toBe(0.5);
+      expect(aliceStats.partners.map(p => [p.partner.name, p.wins, p.losses])).toEqual([
+        ['Bob', 1, 0],
+        ['Charlie', 0, 1]
+      ]);
+    });
+
+    it('should sort players by wins then points scored', () => {
+      const manager = new QueueManager(1);
+      const team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      const team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      const team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+
+      manager.initialize([team1, team2, team3]);
+      manager.recordResult(1, { 15: team1, 10: team2 });
+      manager.recordResult(1, { 15: team1, 12: team3 });
+
+      const names = manager.getPlayerStatistics().map(s => s.player.name);
+      expect(names.slice(0, 2).sort()).toEqual(['Alice', 'Bob']);
+      expect(names.slice(2, 4).sort()).toEqual(['Eve', 'Frank']);
+    });
+  });
+
+  describe('Individual Player Queue', () => {
+    const makePlayers = (count: number) =>
+      Array.from({ length: count }, (_, i) => createPlayer(i + 1, `P${i + 1}`));
+
+    it('should form teams for every court from the first players', () => {
+      const manager = new QueueManager(2);
+      const players = makePlayers(10);
+
+      manager.initializePlayers(players);
+
+      const state = manager.getCurrentState();
+      expect(state.queueMode).toBe('players');
+      expect(state.pairing).toBe('rotating');
+      expect(state.queue).toEqual([]);
+      expect(state.playerQueue!.map(p => p.id)).toEqual([9, 10]);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team1, createTeam(players[0], players[1]))).toBe(true);
+      expect(areTeamsEqual(state.courts[0].currentMatch!.team2, createTeam(players[2], players[3]))).toBe(true);
+      expect(areTeamsEqual(state.courts[1].currentMatch!.team1, createTeam(players[4], players[5]))).toBe(true);
+    });
+
+    it('should require 4 players per court and unique players', () => {
+      const manager = new QueueManager(2);
+
+      expect(() => manager.initializePlayers(makePlayers(7))).toThrow(InsufficientTeamsError);
+      expect(() => manager.initializePlayers([...makePlayers(8), createPlayer(1, 'P1')])).toThrow(QueueManagementError);
+    });
+
+    it('should split losers back into the player queue and pair the next players', () => {
+      const manager = new QueueManager(1);
+      const players = makePlayers(6);
+
+      manager.initializePlayers(players);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      const state = manager.getCurrentState();
+      const match = state.courts[0].currentMatch!;
+      expect(areTeamsEqual(match.team1, createTeam(players[0], players[1]))).toBe(true);
+      expect(areTeamsEqual(match.team2, createTeam(players[4], players[5]))).toBe(true);
+      expect(state.playerQueue!.map(p => p.id)).toEqual([3, 4]);
+    });
+
+    it('should record formed teams in history so statistics still work', () => {
+      const manager = new QueueManager(1);
+
+      manager.initializePlayers(makePlayers(6));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 11 });
+
+      expect(manager.getMatchHistory().length).toBe(2);
+      expect(manager.getTeamStatistics()[0].wins).toBe(2);
+      expect(manager.getPlayerStatistics().find(s => s.player.id === 1)!.wins).toBe(2);
+    });
+
+    it('should rotate partners when forming two teams', () => {
+      const manager = new QueueManager(1, 20, { rotationPolicy: createEveryoneRotatesPolicy() });
+      const players = makePlayers(4);
+
+      manager.initializePlayers(players, { pairing: 'rotating' });
+      // P1/P2 vs P3/P4, then all four go back and are re-paired with new partners
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      const match = manager.getCourtMatch(1)!;
+      expect(areTeamsEqual(match.team1, createTeam(players[0], players[2]))).toBe(true);
+      expect(areTeamsEqual(match.team2, createTeam(players[1], players[3]))).toBe(true);
+    });
+
+    it('should balance teams by rating', () => {
+      const manager = new QueueManager(1);
+      const players = [
+        { ...createPlayer(1, 'Ace'), rating: 1800 },
+        { ...createPlayer(2, 'Good'), rating: 1600 },
+        { ...createPlayer(3, 'Fair'), rating: 1400 },
+        { ...createPlayer(4, 'New'), rating: 1000 }
+      ];
+
+      manager.initializePlayers(players, { pairing: 'balanced' });
+
+      const match = manager.getCourtMatch(1)!;
+      expect(areTeamsEqual(match.team1, createTeam(players[0], players[3]))).toBe(true);
+      expect(areTeamsEqual(match.team2, createTeam(players[1], players[2]))).toBe(true);
+    });
+
+    it('should pair randomly but reproducibly from a seed', () => {
+      const first = new QueueManager(1);
+      const second = new QueueManager(1);
+
+      first.initializePlayers(makePlayers(8), { pairing: 'random', seed: 42 });
+      second.initializePlayers(makePlayers(8), { pairing: 'random', seed: 42 });
+
+      expect(first.getCourtMatch(1)!.team1).toEqual(second.getCourtMatch(1)!.team1);
+      expect(first.getCourtMatch(1)!.team2).toEqual(second.getCourtMatch(1)!.team2);
+    });
+
+    it('should add late players and ignore duplicates', () => {
+      const manager = new QueueManager(1);
+
+      manager.initializePlayers(makePlayers(4));
+      manager.addPlayers([createPlayer(5, 'P5'), createPlayer(1, 'P1'), createPlayer(6, 'P6')]);
+
+      expect(manager.getCurrentState().playerQueue!.map(p => p.id)).toEqual([5, 6]);
+      expect(manager.beautifyQueue()).toBe('P5\nP6');
+      expect(manager.undo()).toBe(true);
+      expect(manager.getCurrentState().playerQueue).toEqual([]);
+    });
+
+    it('should keep teams and players APIs apart', () => {
+      const manager = new QueueManager(1);
+      const teams = [
+        createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob')),
+        createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'))
+      ];
+
+      manager.initialize(teams);
+      expect(() => manager.addPlayers([createPlayer(5, 'Eve')])).toThrow('initializePlayers');
+
+      manager.initializePlayers(makePlayers(4));
+      expect(() => manager.addTeams([teams[0]])).toThrow(QueueManagementError);
+    });
+
+    it('should save and load the player queue', () => {
+      const manager = new QueueManager(1);
+      manager.initializePlayers(makePlayers(6), { pairing: 'balanced' });
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+      newManager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      // Unrated players keep queue order when balancing: P1/P4 beat P2/P3, who go back after P5 and P6
+      const state = newManager.getCurrentState();
+      expect(state.queueMode).toBe('players');
+      expect(state.pairing).toBe('balanced');
+      expect(state.playerQueue!.map(p => p.id)).toEqual([2, 3]);
+    });
+  });
+
+  describe('Player Ratings', () => {
+    let team1: Team;
+    let team2: Team;
+    let team3: Team;
+
+    beforeEach(() => {
+      team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+    });
+
+    it('should start players at the initial rating or their own rating', () => {
+      const manager = new QueueManager(1, 20, { rating: { initialRating: 1200 } });
+
+      expect(manager.getPlayerRating(createPlayer(1, 'Alice'))).toBe(1200);
+      expect(manager.getPlayerRating({ ...createPlayer(2, 'Bob'), rating: 1700 })).toBe(1700);
+      expect(manager.getLeaderboard()).toEqual([]);
+    });
+
+    it('should move ratings of winners and losers by the same amount', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3]);
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(manager.getPlayerRating(team1.player1)).toBe(1516);
+      expect(manager.getPlayerRating(team1.player2)).toBe(1516);
+      expect(manager.getPlayerRating(team2.player1)).toBe(1484);
+      expect(manager.getTeamRating(team2)).toBe(1484);
+      expect(manager.getPlayerRating(team3.player1)).toBe(1500);
+    });
+
+    it('should gain less for beating a weaker team', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3]);
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      // team1 (1516) beats team3 (1500): expected score above 0.5, so less than 16 points
+      const gain = manager.getPlayerRating(team1.player1) - 1516;
+      expect(gain).toBeGreaterThan(0);
+      expect(gain).toBeLessThan(16);
+      expect(manager.getPlayerRating(team3.player1)).toBeCloseTo(1500 - gain, 10);
+    });
+
+    it('should weight rating changes by score margin when enabled', () => {
+      const manager = new QueueManager(1, 20, { rating: { marginWeighted: true } });
+      manager.initialize([team1, team2]);
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 14 });
+      expect(manager.getPlayerRating(team1.player1)).toBe(1516);
+
+      const other = new QueueManager(1, 20, { rating: { marginWeighted: true } });
+      other.initialize([team1, team2]);
+      other.recordResult(1, { team1Score: 15, team2Score: 8 });
+      // Margin 7 gives a multiplier of log2(8) = 3
+      expect(other.getPlayerRating(team1.player1)).toBe(1548);
+    });
+
+    it('should rewind ratings on undo/redo and follow edited results', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3]);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      manager.undo();
+      expect(manager.getPlayerRating(team1.player1)).toBe(1500);
+
+      manager.redo();
+      expect(manager.getPlayerRating(team1.player1)).toBe(1516);
+
+      manager.editMatchResult(0, [
+        { team: team1, score: 12 },
+        { team: team2, score: 15 }
+      ]);
+      expect(manager.getPlayerRating(team1.player1)).toBe(1484);
+      expect(manager.getPlayerRating(team2.player1)).toBe(1516);
+    });
+
+    it('should list a leaderboard with per-player rating history', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3]);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 10, team2Score: 15 });
+
+      const leaderboard = manager.getLeaderboard();
+      expect(leaderboard.map(entry => entry.player.id)).toEqual([5, 6, 1, 2, 3, 4]);
+      expect(leaderboard[0].gamesPlayed).toBe(1);
+
+      const history = manager.getRatingHistory(1);
+      expect(history.map(entry => entry.matchNumber)).toEqual([1, 2]);
+      expect(history[0]).toMatchObject({ rating: 1516, delta: 16, courtId: 1 });
+      expect(history[1].delta).toBeLessThan(-16);
+      expect(manager.getRatingHistory(99)).toEqual([]);
+    });
+
+    it('should balance player teams by live ratings', () => {
+      const manager = new QueueManager(1, 20, {
+        rotationPolicy: createEveryoneRotatesPolicy(),
+        rating: { kFactor: 200 }
+      });
+      const players = [
+        { ...createPlayer(1, 'P1'), rating: 1600 },
+        { ...createPlayer(2, 'P2'), rating: 1500 },
+        { ...createPlayer(3, 'P3'), rating: 1500 },
+        { ...createPlayer(4, 'P4'), rating: 1400 }
+      ];
+
+      manager.initializePlayers(players, { pairing: 'balanced' });
+      // P1/P4 (1500) lose to P2/P3 (1500): P2 and P3 rise to 1600, P1 falls to 1500, P4 to 1300
+      manager.recordResult(1, { team1Score: 10, team2Score: 15 });
+
+      const match = manager.getCourtMatch(1)!;
+      expect(areTeamsEqual(match.team1, createTeam(players[1], players[3]))).toBe(true);
+      expect(areTeamsEqual(match.team2, createTeam(players[2], players[0]))).toBe(true);
+    });
+
+    it('should reject invalid rating options', () => {
+      expect(() => new QueueManager(1, 20, { rating: { kFactor: 0 } })).toThrow(QueueManagementError);
+      expect(() => new QueueManager(1, 20, { rating: { initialRating: NaN } })).toThrow(QueueManagementError);
+    });
+
+    it('should keep rating options across save and load', () => {
+      const manager = new QueueManager(1, 20, { rating: { kFactor: 20, initialRating: 1000 } });
+      manager.initialize([team1, team2]);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+
+      expect(newManager.getRatingOptions()).toEqual({ initialRating: 1000, kFactor: 20, marginWeighted: false });
+      expect(newManager.getPlayerRating(team1.player1)).toBe(1010);
+      expect(newManager.getRatingHistory(1)[0].timestamp).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('Adding and Closing Courts', () => {
+    let teams: Team[];
+
+    beforeEach(() => {
+      teams = makeTeams(7);
+    });
+
+    it('should open a court with the next teams in the queue', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 5));
+
+      const courtId = manager.addCourt();
+
+      expect(courtId).toBe(2);
+      const match = manager.getCourtMatch(2)!;
+      expect(areTeamsEqual(match.team1, teams[2])).toBe(true);
+      expect(areTeamsEqual(match.team2, teams[3])).toBe(true);
+      expect(match.matchNumber).toBe(2);
+      expect(manager.getCurrentState().queue).toEqual([teams[4]]);
+
+      manager.recordResult(2, { team1Score: 15, team2Score: 10 });
+      expect(areTeamsEqual(manager.getCourtMatch(2)!.team2, teams[4])).toBe(true);
+    });
+
+    it('should require an initialized system and 2 waiting teams to open a court', () => {
+      const manager = new QueueManager(1);
+      expect(() => manager.addCourt()).toThrow('initialize');
+
+      manager.initialize(teams.slice(0, 3));
+      expect(() => manager.addCourt()).toThrow(InsufficientTeamsError);
+      expect(manager.canUndo()).toBe(false);
+    });
+
+    it('should return the teams of a closed court to the front of the queue by default', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams.slice(0, 6));
+      manager.updateScore(2, 1, 5);
+
+      manager.closeCourt(2);
+
+      const state = manager.getCurrentState();
+      expect(state.courts.map(c => c.id)).toEqual([1]);
+      expect(state.queue).toEqual([teams[2], teams[3], teams[4], teams[5]]);
+      expect(manager.getMatchHistory()).toEqual([]);
+      expect(manager.getCourtMatch(2)).toBeNull();
+    });
+
+    it('should return the teams of a closed court to the back of the queue', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams.slice(0, 6));
+
+      manager.closeCourt(1, { returnTo: 'back' });
+
+      expect(manager.getCurrentState().queue).toEqual([teams[4], teams[5], teams[0], teams[1]]);
+    });
+
+    it('should split the teams of a closed court into players in individual player mode', () => {
+      const manager = new QueueManager(2);
+      const players = Array.from({ length: 8 }, (_, i) => createPlayer(i + 1, `P${i + 1}`));
+      manager.initializePlayers(players);
+
+      manager.closeCourt(1);
+
+      expect(manager.getCurrentState().playerQueue!.map(p => p.id)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should validate closeCourt arguments', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams.slice(0, 4));
+
+      expect(() => manager.closeCourt(3)).toThrow(CourtNotFoundError);
+      expect(() => manager.closeCourt(1, { returnTo: 'middle' as 'front' })).toThrow(QueueManagementError);
+
+      manager.closeCourt(1);
+      expect(() => manager.closeCourt(2)).toThrow('last court');
+    });
+
+    it('should give new courts an ID after the highest existing one', () => {
+      const manager = new QueueManager(3);
+      manager.initialize(teams);
+
+      manager.closeCourt(2);
+
+      expect(manager.addCourt()).toBe(4);
+      expect(manager.getCourts().map(c => c.id)).toEqual([1, 3, 4]);
+    });
+
+    it('should not give a new court the ID of a closed court with results', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+      manager.recordResult(2, { team1Score: 15, team2Score: 10 });
+      manager.closeCourt(2, { returnTo: 'back' });
+
+      expect(manager.addCourt()).toBe(3);
+      expect(manager.getCourtStatistics().map(stats => [stats.courtId, stats.matchesPlayed])).toEqual([[1, 0], [2, 1], [3, 0]]);
+      expect(() => manager.voidMatch(0, 'Wrong court', { rollback: true })).toThrow(/no longer in play/);
+    });
+
+    it('should undo and redo opening and closing courts', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 4));
+
+      manager.addCourt();
+      manager.closeCourt(1, { returnTo: 'back' });
+
+      manager.undo();
+      expect(manager.getCourts().map(c => c.id)).toEqual([1, 2]);
+      manager.undo();
+      expect(manager.getCourts().map(c => c.id)).toEqual([1]);
+      expect(manager.getCurrentState().queue).toEqual([teams[2], teams[3]]);
+
+      manager.redo();
+      manager.redo();
+      expect(manager.getCourts().map(c => c.id)).toEqual([2]);
+      expect(manager.getCurrentState().queue).toEqual([teams[0], teams[1]]);
+    });
+
+    it('should save and load the set of open courts', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 4));
+      manager.addCourt();
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+
+      expect(newManager.getCourts().map(c => c.id)).toEqual([1, 2]);
+      expect(newManager.getCourtMatch(2)!.matchNumber).toBe(2);
+    });
+  });
+
+  describe('Team Withdrawal and Player Substitution', () => {
+    let team1: Team;
+    let team2: Team;
+    let team3: Team;
+    let team4: Team;
+
+    beforeEach(() => {
+      team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+      team4 = createTeam(createPlayer(7, 'Grace'), createPlayer(8, 'Henry'));
+    });
+
+    it('should remove a team from the queue', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3, team4]);
+
+      manager.removeTeam(createTeam(team3.player2, team3.player1));
+
+      expect(manager.getCurrentState().queue).toEqual([team4]);
+    });
+
+    it('should replace a team that withdraws from court with the next team in the queue', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3, team4]);
+
+      manager.removeTeam(team1);
+
+      const match = manager.getCourtMatch(1)!;
+      expect(match.team1).toEqual(team3);
+      expect(match.team2).toEqual(team2);
+      expect(match.matchNumber).toBe(2);
+      expect(manager.getCurrentState().queue).toEqual([team4]);
+      expect(manager.getMatchHistory()).toEqual([]);
+    });
+
+    it('should keep the winning streak of the team that stays on court', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3, team4]);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      // team1 has 1 win; its new opponent team3 withdraws
+      manager.removeTeam(team3);
+
+      const court = manager.getCourts()[0];
+      expect(court.consecutiveWins).toBe(1);
+      expect(court.currentCourtTeam).toEqual(team1);
+      expect(court.currentMatch!.team2).toEqual(team4);
+
+      // If the team on a streak withdraws, the streak ends
+      manager.removeTeam(team1);
+      expect(manager.getCourts()[0].consecutiveWins).toBe(0);
+      expect(manager.getCourts()[0].currentCourtTeam).toBeNull();
+    });
+
+    it('should validate team removal', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2]);
+
+      expect(() => manager.removeTeam(team3)).toThrow(TeamNotFoundError);
+      expect(() => manager.removeTeam(team1)).toThrow(InsufficientTeamsError);
+      expect(manager.getCourtMatch(1)!.team1).toEqual(team1);
+      expect(manager.canUndo()).toBe(false);
+    });
+
+    it('should undo a team removal', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3]);
+
+      manager.removeTeam(team2);
+      manager.undo();
+
+      expect(manager.getCourtMatch(1)!.team2).toEqual(team2);
+      expect(manager.getCurrentState().queue).toEqual([team3]);
+    });
+
+    it('should substitute a player of a team in the queue', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3]);
+      const ivy = createPlayer(9, 'Ivy');
+
+      const updated = manager.substitutePlayer(team3, team3.player2, ivy);
+
+      expect(updated).toEqual(createTeam(team3.player1, ivy));
+      expect(manager.getCurrentState().queue).toEqual([updated]);
+    });
+
+    it('should substitute a player on court, keeping the streak and serve', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3]);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.setServer(1, 1, team1.player1);
+      const ivy = createPlayer(9, 'Ivy');
+
+      const updated = manager.substitutePlayer(team1, team1.player1, ivy);
+
+      const court = manager.getCourts()[0];
+      expect(court.currentMatch!.team1).toEqual(createTeam(ivy, team1.player2));
+      expect(court.currentCourtTeam).toEqual(updated);
+      expect(court.consecutiveWins).toBe(1);
+      expect(manager.getServe(1)!.player).toEqual(ivy);
+    });
+
+    it('should keep past results attributed to the original players', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3]);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      const ivy = createPlayer(9, 'Ivy');
+
+      manager.substitutePlayer(team1, team1.player1, ivy);
+      manager.recordResult(1, { team1Score: 15, team2Score: 12 });
+
+      const teamStats = manager.getTeamStatistics();
+      expect(teamStats.find(s => areTeamsEqual(s.team, team1))!.wins).toBe(1);
+      expect(teamStats.find(s => areTeamsEqual(s.team, createTeam(ivy, team1.player2)))!.wins).toBe(1);
+
+      const playerStats = manager.getPlayerStatistics();
+      expect(playerStats.find(s => s.player.id === 1)!.gamesPlayed).toBe(1);
+      expect(playerStats.find(s => s.player.id === 9)!.gamesPlayed).toBe(1);
+      expect(playerStats.find(s => s.player.id === 2)!.wins).toBe(2);
+      expect(manager.getMatchHistory()[0].winner).toEqual(team1);
+    });
+
+    it('should validate player substitution', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3]);
+
+      expect(() => manager.substitutePlayer(team4, team4.player1, createPlayer(9, 'Ivy'))).toThrow(TeamNotFoundError);
+      expect(() => manager.substitutePlayer(team1, team2.player1, createPlayer(9, 'Ivy'))).toThrow(QueueManagementError);
+      expect(() => manager.substitutePlayer(team1, team1.player1, team3.player1)).toThrow('already in the queue or on a court');
+      expect(manager.canUndo()).toBe(false);
+    });
+
+    it('should undo a player substitution', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2]);
+
+      manager.substitutePlayer(team2, team2.player1, createPlayer(9, 'Ivy'));
+      manager.undo();
+
+      expect(manager.getCourtMatch(1)!.team2).toEqual(team2);
+    });
+  });
+
+  describe('Paused Teams', () => {
+    let team1: Team;
+    let team2: Team;
+    let team3: Team;
+    let team4: Team;
+    let team5: Team;
+
+    beforeEach(() => {
+      team1 = createTeam(createPlayer(1, 'Alice'), createPlayer(2, 'Bob'));
+      team2 = createTeam(createPlayer(3, 'Charlie'), createPlayer(4, 'Diana'));
+      team3 = createTeam(createPlayer(5, 'Eve'), createPlayer(6, 'Frank'));
+      team4 = createTeam(createPlayer(7, 'Grace'), createPlayer(8, 'Henry'));
+      team5 = createTeam(createPlayer(9, 'Ivy'), createPlayer(10, 'Jack'));
+    });
+
+    it('should skip a paused team but keep its place in the queue', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3, team4, team5]);
+
+      manager.pauseTeam(team3);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(manager.getCourtMatch(1)!.team2).toEqual(team4);
+      expect(manager.getCurrentState().queue).toEqual([team3, team5, team2]);
+      expect(manager.isTeamPaused(team3)).toBe(true);
+    });
+
+    it('should resume a team on demand', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3, team4]);
+
+      manager.pauseTeam(team3);
+      manager.resumeTeam(team3);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(manager.getCourtMatch(1)!.team2).toEqual(team3);
+      expect(manager.isTeamPaused(team3)).toBe(false);
+      expect(() => manager.resumeTeam(team3)).toThrow(QueueManagementError);
+    });
+
+    it('should resume a team automatically after a number of matches', () => {
+      const manager = new QueueManager(2);
+      manager.initialize([team1, team2, team3, team4, team5]);
+
+      manager.pauseTeam(team5, { matches: 2 });
+      expect(manager.getCurrentState().pausedTeams).toEqual([{ team: team5, matchesRemaining: 2 }]);
+
+      // Skipped in the first match: team2 comes back from the end of the queue
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(manager.getCourtMatch(1)!.team2).toEqual(team2);
+      expect(manager.getCurrentState().pausedTeams).toEqual([{ team: team5, matchesRemaining: 1 }]);
+
+      manager.recordResult(2, { team1Score: 15, team2Score: 10 });
+      expect(manager.isTeamPaused(team5)).toBe(false);
+      expect(manager.getCurrentState().pausedTeams).toBeUndefined();
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(manager.getCourtMatch(1)!.team2).toEqual(team5);
+    });
+
+    it('should not count paused teams as waiting for the consecutive wins rule', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3, team4]);
+      manager.pauseTeam(team4);
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      // Only team2 is available in the queue, so team1 stays despite 2 wins
+      const match = manager.getCourtMatch(1)!;
+      expect(match.team1).toEqual(team1);
+      expect(match.team2).toEqual(team2);
+    });
+
+    it('should show paused teams in beautifyQueue', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3, team4, team5]);
+
+      manager.pauseTeam(team3);
+      manager.pauseTeam(team5, { matches: 1 });
+
+      expect(manager.beautifyQueue()).toBe('Eve e Frank (paused)\nGrace e Henry\nIvy e Jack (paused, 1 match left)');
+    });
+
+    it('should validate pauses', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3]);
+
+      expect(() => manager.pauseTeam(team1)).toThrow(TeamNotFoundError);
+      expect(() => manager.pauseTeam(team3, { matches: 0 })).toThrow(QueueManagementError);
+      expect(manager.canUndo()).toBe(false);
+    });
+
+    it('should forget the pause of a removed team and follow substitutions', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3, team4]);
+      manager.pauseTeam(team3);
+      manager.pauseTeam(team4);
+
+      manager.removeTeam(team3);
+      const updated = manager.substitutePlayer(team4, team4.player1, createPlayer(11, 'Kate'));
+
+      expect(manager.getCurrentState().pausedTeams).toEqual([{ team: updated, matchesRemaining: null }]);
+    });
+
+    it('should undo pauses and keep them across save and load', () => {
+      const manager = new QueueManager(1);
+      manager.initialize([team1, team2, team3, team4]);
+
+      manager.pauseTeam(team3);
+      manager.pauseTeam(team4, { matches: 3 });
+      manager.undo();
+      expect(manager.isTeamPaused(team4)).toBe(false);
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+      expect(newManager.isTeamPaused(team3)).toBe(true);
+      newManager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(newManager.getCourtMatch(1)!.team2).toEqual(team4);
+    });
+  });
+
+  describe('Queue Insertion Policies', () => {
+    let teams: Team[];
+    const minutes = (count: number) => count * 60 * 1000;
+
+    beforeEach(() => {
+      teams = makeTeams(5);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should append teams by default', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 3));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      manager.addTeams([teams[3]]);
+
+      expect(manager.getInsertionPolicy()).toEqual({ type: 'append' });
+      expect(manager.getCurrentState().queue).toEqual([teams[1], teams[3]]);
+    });
+
+    it('should place new and returning teams by games played', () => {
+      const manager = new QueueManager(1, 20, { insertionPolicy: { type: 'games-played' } });
+      manager.initialize(teams.slice(0, 3));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      // The late team has played no games, so it goes ahead of team2 (1 game)
+      manager.addTeams([teams[3]]);
+      expect(manager.getCurrentState().queue).toEqual([teams[3], teams[1]]);
+
+      // team1 (2 games) loses and goes behind team2 (1 game)
+      manager.recordResult(1, { team1Score: 10, team2Score: 15 });
+      expect(manager.getCurrentState().queue).toEqual([teams[1], teams[0]]);
+      expect(manager.getCourtMatch(1)!.team2).toEqual(teams[3]);
+    });
+
+    it('should place teams after the next N teams', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 4));
+
+      manager.addTeams([teams[4]], { type: 'after-next', teams: 1 });
+      expect(manager.getCurrentState().queue).toEqual([teams[2], teams[4], teams[3]]);
+
+      // team2 goes behind team3 and team5, then team3 is pulled onto the court
+      manager.setInsertionPolicy({ type: 'after-next', teams: 2 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(manager.getCurrentState().queue).toEqual([teams[4], teams[1], teams[3]]);
+    });
+
+    it('should place returning teams by total time waited', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+      const manager = new QueueManager(1, 20, { insertionPolicy: { type: 'wait-time' } });
+      manager.initialize(teams.slice(0, 4));
+
+      vi.setSystemTime(minutes(10));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(manager.getWaitTime(teams[2])).toBe(minutes(10));
+
+      // team1 reaches 2 wins and both teams leave: team1 never waited, team3 waited 10 minutes,
+      // so team3 goes ahead of team1 (append would have kept team1 first)
+      vi.setSystemTime(minutes(20));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(manager.getCurrentState().queue).toEqual([teams[2], teams[0]]);
+      expect(manager.getWaitTime(teams[3])).toBe(minutes(20));
+      expect(manager.getWaitTime(teams[1])).toBe(minutes(10));
+      expect(manager.getWaitTime(teams[0])).toBe(0);
+    });
+
+    it('should validate insertion policies', () => {
+      expect(() => new QueueManager(1, 20, { insertionPolicy: { type: 'after-next', teams: -1 } })).toThrow(QueueManagementError);
+
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 2));
+      expect(() => manager.setInsertionPolicy({ type: 'shortest-first' } as unknown as InsertionPolicy)).toThrow('Unknown insertion policy');
+      expect(() => manager.addTeams([teams[2]], { type: 'after-next', teams: 1.5 })).toThrow(QueueManagementError);
+      expect(manager.canUndo()).toBe(false);
+    });
+
+    it('should undo insertions and keep the policy across save and load', () => {
+      const manager = new QueueManager(1, 20, { insertionPolicy: { type: 'games-played' } });
+      manager.initialize(teams.slice(0, 3));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      manager.addTeams([teams[3]]);
+      manager.undo();
+      expect(manager.getCurrentState().queue).toEqual([teams[1]]);
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+      expect(newManager.getInsertionPolicy()).toEqual({ type: 'games-played' });
+      newManager.addTeams([teams[3]]);
+      expect(newManager.getCurrentState().queue).toEqual([teams[3], teams[1]]);
+    });
+  });
+
+  describe('Queue Forecast', () => {
+    let teams: Team[];
+    const minutes = (count: number) => count * 60 * 1000;
+
+    beforeEach(() => {
+      teams = makeTeams(6);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should count the matches ahead of each queued team with the consecutive wins rule', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 5));
+
+      // team1 beats team2 (team3 is up), then reaches 2 wins and leaves with team3 (team4 and team5 are up)
+      const forecast = manager.getQueueForecast();
+
+      expect(forecast.map(entry => [entry.position, entry.matchesAhead, entry.courtId])).toEqual([
+        [0, 1, 1],
+        [1, 2, 1],
+        [2, 2, 1]
+      ]);
+      expect(forecast.map(entry => entry.team)).toEqual([teams[2], teams[3], teams[4]]);
+      expect(forecast[0].estimatedStart).toBeNull();
+    });
+
+    it('should estimate start times from the match history', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+      const manager = new QueueManager(1, 20, { rotationPolicy: createKingOfTheCourtPolicy() });
+      manager.initialize(teams.slice(0, 4));
+
+      vi.setSystemTime(minutes(10));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      vi.setSystemTime(minutes(30));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      vi.setSystemTime(minutes(35));
+
+      // Matches took 10 and 20 minutes: the current one (started at 30) ends at 45, the next one at 60
+      const forecast = manager.getQueueForecast();
+
+      expect(forecast.map(entry => entry.team)).toEqual([teams[1], teams[2]]);
+      expect(forecast.map(entry => entry.matchesAhead)).toEqual([1, 2]);
+      expect(forecast.map(entry => entry.estimatedStart!.getTime())).toEqual([minutes(45), minutes(60)]);
+    });
+
+    it('should spread the queue across courts finishing first', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+
+      const forecast = manager.getQueueForecast({ averageMatchMinutes: 12 });
+
+      expect(forecast.map(entry => [entry.matchesAhead, entry.courtId, entry.estimatedStart!.getTime()])).toEqual([
+        [1, 1, minutes(12)],
+        [2, 2, minutes(12)]
+      ]);
+    });
+
+    it('should account for paused teams', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 5));
+      manager.pauseTeam(teams[2]);
+      manager.pauseTeam(teams[3], { matches: 1 });
+
+      const forecast = manager.getQueueForecast();
+
+      // team3 is paused until resumed; team5 plays first, team4 once its pause is over
+      expect(forecast.map(entry => entry.matchesAhead)).toEqual([null, 2, 1]);
+      expect(forecast[0].estimatedStart).toBeNull();
+    });
+
+    it('should not change the state', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 5));
+      const before = manager.saveState();
+
+      manager.getQueueForecast({ averageMatchMinutes: 10 });
+
+      expect(manager.saveState()).toBe(before);
+      expect(manager.canUndo()).toBe(false);
+    });
+
+    it('should validate the average match duration', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 3));
+
+      expect(() => manager.getQueueForecast({ averageMatchMinutes: 0 })).toThrow(QueueManagementError);
+      expect(new QueueManager(1).getQueueForecast()).toEqual([]);
+    });
+  });
+
+  describe('Match Timing', () => {
+    let teams: Team[];
+    const minutes = (count: number) => count * 60 * 1000;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+      teams = makeTeams(6);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should set startedAt when a match is placed on a court', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 4));
+      expect(manager.getCourtMatch(1)!.startedAt).toEqual(new Date(0));
+
+      vi.setSystemTime(minutes(12));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(manager.getCourtMatch(1)!.startedAt).toEqual(new Date(minutes(12)));
+
+      vi.setSystemTime(minutes(13));
+      expect(manager.getCourtMatch(manager.addCourt())!.startedAt).toEqual(new Date(minutes(13)));
+    });
+
+    it('should record endedAt and duration on results', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 3));
+
+      vi.setSystemTime(minutes(12));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      const [result] = manager.getMatchHistory();
+      expect(result.endedAt).toEqual(new Date(minutes(12)));
+      expect(result.timestamp).toEqual(result.endedAt);
+      expect(result.durationMs).toBe(minutes(12));
+    });
+
+    it('should compute average match duration per court', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+
+      vi.setSystemTime(minutes(10));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      vi.setSystemTime(minutes(30));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      vi.setSystemTime(minutes(14));
+      manager.recordResult(2, { team1Score: 15, team2Score: 10 });
+
+      expect(manager.getCourtStatistics()).toEqual([
+        { courtId: 1, matchesPlayed: 2, totalDurationMs: minutes(30), averageDurationMs: minutes(15) },
+        { courtId: 2, matchesPlayed: 1, totalDurationMs: minutes(14), averageDurationMs: minutes(14) }
+      ]);
+    });
+
+    it('should keep statistics of closed courts and list new courts without matches', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+
+      vi.setSystemTime(minutes(10));
+      manager.recordResult(2, { team1Score: 15, team2Score: 10 });
+      manager.closeCourt(2);
+
+      expect(manager.getCourtStatistics()).toEqual([
+        { courtId: 1, matchesPlayed: 0, totalDurationMs: 0, averageDurationMs: null },
+        { courtId: 2, matchesPlayed: 1, totalDurationMs: minutes(10), averageDurationMs: minutes(10) }
+      ]);
+    });
+
+    it('should total the time on court per team', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 3));
+
+      vi.setSystemTime(minutes(10));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      vi.setSystemTime(minutes(25));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      const stats = manager.getTeamStatistics();
+      expect(stats.find(s => areTeamsEqual(s.team, teams[0]))!.timeOnCourtMs).toBe(minutes(25));
+      expect(stats.find(s => areTeamsEqual(s.team, teams[1]))!.timeOnCourtMs).toBe(minutes(10));
+      expect(stats.find(s => areTeamsEqual(s.team, teams[2]))!.timeOnCourtMs).toBe(minutes(15));
+    });
+
+    it('should restore match times on load', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 3));
+      vi.setSystemTime(minutes(10));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      const newManager = new QueueManager(1);
+      newManager.loadState(manager.saveState());
+
+      expect(newManager.getCourtMatch(1)!.startedAt).toEqual(new Date(minutes(10)));
+      expect(newManager.getMatchHistory()[0].endedAt).toEqual(new Date(minutes(10)));
+      expect(newManager.getMatchHistory()[0].match.startedAt).toEqual(new Date(0));
+    });
+  });
+
+  describe('Events and Logging', () => {
+    let teams: Team[];
+
+    beforeEach(() => {
+      teams = makeTeams(5);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const recordEvents = (manager: QueueManager) => {
+      const events: string[] = [];
+      const names: QueueManagerEventName[] = [
+        'matchStarted', 'resultRecorded', 'resultEdited', 'courtStreakReached', 'queueChanged',
+        'scoreChanged', 'courtOpened', 'courtClosed', 'stateRestored'
+      ];
+      for (const name of names) {
+        manager.on(name, () => events.push(name));
+      }
+      return events;
+    };
+
+    it('should be silent by default', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const manager = new QueueManager(1);
+
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(log).not.toHaveBeenCalled();
+    });
+
+    it('should send progress messages to a pluggable logger', () => {
+      const messages: string[] = [];
+      const manager = new QueueManager(1, 20, { logger: { log: message => messages.push(message) } });
+
+      manager.initialize(teams);
+      expect(messages).toContain('System initialized with 5 teams across 1 court(s)');
+
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      manager.setLogger(consoleLogger);
+      manager.addTeams([createTeam(createPlayer(11, 'P11'), createPlayer(12, 'P12'))]);
+      expect(log).toHaveBeenCalledWith('Added 1 team(s) to the queue');
+
+      manager.setLogger(silentLogger);
+      manager.undo();
+      expect(log).not.toHaveBeenCalledWith('Undo successful');
+    });
+
+    it('should emit typed payloads when a result is recorded', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      const events = recordEvents(manager);
+      const results: number[] = [];
+      const starts: number[] = [];
+      manager.on('resultRecorded', ({ courtId, result }) => results.push(courtId, result.match.matchNumber));
+      manager.on('matchStarted', ({ match }) => starts.push(match.matchNumber));
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(events).toEqual(['resultRecorded', 'matchStarted', 'queueChanged']);
+      expect(results).toEqual([1, 1]);
+      expect(starts).toEqual([2]);
+    });
+
+    it('should emit courtStreakReached when a winner reaches the streak its policy allows', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      const streaks: [Team, number][] = [];
+      manager.on('courtStreakReached', ({ team, consecutiveWins }) => streaks.push([team, consecutiveWins]));
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(streaks).toEqual([]);
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(streaks).toEqual([[teams[0], 2]]);
+    });
+
+    it('should take the streak of courtStreakReached from the court\'s rotation policy', () => {
+      const streaksWith = (policy: RotationPolicy) => {
+        const manager = new QueueManager(1, 20, { rotationPolicy: policy });
+        manager.initialize(teams);
+        const streaks: number[] = [];
+        manager.on('courtStreakReached', ({ consecutiveWins }) => streaks.push(consecutiveWins));
+        for (let i = 0; i < 4; i++) {
+          manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+        }
+        return streaks;
+      };
+
+      expect(streaksWith(createWinnerStaysPolicy({ maxConsecutiveWins: 3 }))).toEqual([3]);
+      expect(streaksWith(createWinnerStaysPolicy({ maxConsecutiveWins: 1 }))).toEqual([1, 1, 1, 1]);
+      expect(streaksWith(createKingOfTheCourtPolicy())).toEqual([]);
+    });
+
+    it('should emit queue, score and court events', () => {
+      const manager = new QueueManager(1);
+      const events = recordEvents(manager);
+      let queueSize = 0;
+      manager.on('queueChanged', ({ queue }) => { queueSize = queue.length; });
+
+      manager.initialize(teams);
+      manager.reorderTeamInQueue(0, 2);
+      manager.updateScore(1, 1, 1);
+      manager.undoLastPoint(1);
+      manager.addCourt();
+      manager.closeCourt(2);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.editMatchResult(0, [{ team: teams[0], score: 15 }, { team: teams[1], score: 12 }]);
+
+      expect(events).toEqual([
+        'matchStarted', 'queueChanged',
+        'queueChanged',
+        'scoreChanged',
+        'scoreChanged',
+        'courtOpened', 'matchStarted', 'queueChanged',
+        'courtClosed', 'queueChanged',
+        'resultRecorded', 'matchStarted', 'queueChanged',
+        'resultEdited'
+      ]);
+      expect(queueSize).toBe(3);
+    });
+
+    it('should emit stateRestored on undo, redo and load', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      const sources: string[] = [];
+      manager.on('stateRestored', ({ source }) => sources.push(source));
+
+      manager.undo();
+      manager.redo();
+      manager.loadState(manager.saveState());
+
+      expect(sources).toEqual(['undo', 'redo', 'load']);
+    });
+
+    it('should stop calling unsubscribed listeners', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      const first = vi.fn();
+      const second = vi.fn();
+
+      const unsubscribe = manager.on('resultRecorded', first);
+      manager.on('resultRecorded', second);
+      unsubscribe();
+      manager.off('resultRecorded', second);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Session Log and Replay', () => {
+    let teams: Team[];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+      teams = makeTeams(6);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const tick = (minutes: number) => vi.advanceTimersByTime(minutes * 60 * 1000);
+
+    it('should log state-changing calls in order with the time they were made', () => {
+      const manager = new QueueManager(1);
+
+      manager.initialize(teams.slice(0, 4));
+      tick(1);
+      manager.addTeams([teams[4]]);
+      tick(10);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      tick(1);
+      manager.reorderTeamInQueue(0, 1);
+      manager.editMatchResult(0, [{ team: teams[0], score: 15 }, { team: teams[1], score: 13 }]);
+      manager.getQueueForecast();
+
+      const { commands } = manager.getSessionLog();
+      expect(commands.map(command => command.type)).toEqual([
+        'initialize', 'addTeams', 'recordResult', 'reorderTeamInQueue', 'editMatchResult'
+      ]);
+      expect(commands.map(command => command.at)).toEqual([0, 60000, 660000, 720000, 720000]);
+      expect(commands[2]).toEqual({ at: 660000, type: 'recordResult', courtId: 1, scores: { team1Score: 15, team2Score: 10 } });
+    });
+
+    it('should not log failed calls', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 4));
+
+      expect(() => manager.recordResult(2, { team1Score: 15, team2Score: 10 })).toThrow(CourtNotFoundError);
+      expect(() => manager.recordResult(1, { team1Score: 15, team2Score: 15 })).toThrow(InvalidMatchResultError);
+      expect(() => manager.reorderTeamInQueue(0, 5)).toThrow(InvalidQueueIndexError);
+
+      expect(manager.getSessionLog().commands.map(command => command.type)).toEqual(['initialize']);
+      expect(manager.getUndoDepth()).toBe(0);
+    });
+
+    it('should replay a session into an identical manager', () => {
+      const manager = new QueueManager(2, 20, { insertionPolicy: { type: 'wait-time' }, rating: { kFactor: 16 } });
+
+      manager.initialize(teams.slice(0, 5));
+      tick(2);
+      manager.addTeams([teams[5]]);
+      tick(12);
+      manager.recordResult(1, { team1Score: 15, team2Score: 11 });
+      tick(3);
+      manager.recordResult(2, { 21: teams[3], 19: teams[2] });
+      manager.pauseTeam(manager.getCurrentState().queue[0], { matches: 1 });
+      manager.setCourtMode(1, 'king-of-the-court');
+      tick(9);
+      manager.updateScore(1, 1, 3);
+      manager.setServer(1, 2);
+      manager.recordResult(1, { team1Score: 9, team2Score: 15 });
+      manager.undo();
+      manager.redo();
+      manager.substitutePlayer(teams[0], teams[0].player1, createPlayer(99, 'Sub'));
+      manager.editMatchResult(1, [{ team: teams[2], score: 21 }, { team: teams[3], score: 23 }]);
+      manager.setRotationPolicy(createEveryoneRotatesPolicy());
+
+      const replayed = replay(manager.getSessionLog());
+
+      expect(replayed.saveState()).toBe(manager.saveState());
+      expect(replayed.getSessionLog()).toEqual(manager.getSessionLog());
+    });
+
+    it('should replay random pairings without an explicit seed', () => {
+      const manager = new QueueManager(1);
+      const players = Array.from({ length: 10 }, (_, i) => createPlayer(i + 1, `P${i + 1}`));
+
+      vi.setSystemTime(123456);
+      manager.initializePlayers(players, { pairing: 'random' });
+      tick(10);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(replay(manager.getSessionLog()).saveState()).toBe(manager.saveState());
+    });
+
+    it('should log an auto-finished result as part of the score update', () => {
+      const manager = new QueueManager(1, 20, { scoringFormat: { target: 3, winBy: 2 }, autoFinish: true });
+      manager.initialize(teams.slice(0, 4));
+
+      manager.updateScore(1, 1, 2);
+      tick(1);
+      manager.updateScore(1, 1, 1);
+
+      expect(manager.getMatchHistory().length).toBe(1);
+      expect(manager.getSessionLog().commands.map(command => command.type)).toEqual([
+        'initialize', 'updateScore', 'updateScore'
+      ]);
+      expect(replay(manager.getSessionLog()).saveState()).toBe(manager.saveState());
+    });
+
+    it('should log calls made by event listeners after the call that triggered them', () => {
+      const manager = new QueueManager(1);
+      manager.on('resultRecorded', () => manager.reorderTeamInQueue(0, 1));
+      manager.initialize(teams.slice(0, 5));
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(manager.getSessionLog().commands.map(command => command.type)).toEqual([
+        'initialize', 'recordResult', 'reorderTeamInQueue'
+      ]);
+      expect(replay(manager.getSessionLog()).saveState()).toBe(manager.saveState());
+    });
+
+    it('should derive the state at a point in time', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 4));
+      tick(10);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      tick(10);
+      manager.recordResult(1, { team1Score: 15, team2Score: 12 });
+
+      const earlier = replay(manager.getSessionLog(), { until: new Date(15 * 60 * 1000) });
+
+      expect(earlier.getMatchHistory().length).toBe(1);
+      expect(earlier.getSessionLog().commands.length).toBe(2);
+    });
+
+    it('should continue logging on the replayed manager with its own clock', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 4));
+
+      const replayed = replay(manager.getSessionLog(), { clock: () => 5000 });
+      replayed.addTeams([teams[4]]);
+
+      expect(replayed.getSessionLog().commands.at(-1)).toMatchObject({ at: 5000, type: 'addTeams' });
+      expect(manager.getSessionLog().commands.length).toBe(1);
+    });
+
+    it('should keep the session log through save and load', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 4));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      const loaded = new QueueManager(1);
+      loaded.loadState(manager.saveState());
+
+      expect(loaded.getSessionLog()).toEqual(manager.getSessionLog());
+      expect(replay(loaded.getSessionLog()).saveState()).toBe(manager.saveState());
+    });
+
+    it('should start a new log from a save without one', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 4));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      const { sessionLog, ...legacySave } = JSON.parse(manager.saveState());
+
+      const loaded = new QueueManager(1);
+      tick(5);
+      loaded.loadState(JSON.stringify(legacySave));
+      loaded.recordResult(1, { team1Score: 15, team2Score: 13 });
+
+      expect(sessionLog.commands.length).toBe(2);
+      expect(loaded.getSessionLog().commands.map(command => command.type)).toEqual(['loadState', 'recordResult']);
+      expect(replay(loaded.getSessionLog()).getMatchHistory()).toEqual(loaded.getMatchHistory());
+    });
+
+    it('should reject unknown commands', () => {
+      const log = new QueueManager(1).getSessionLog();
+      log.commands.push({ at: 0, type: 'teleport' } as unknown as SessionCommand);
+
+      expect(() => replay(log)).toThrow(QueueManagementError);
+    });
+  });
+
+  describe('Retroactive Result Correction', () => {
+    let teams: Team[];
+
+    beforeEach(() => {
+      teams = makeTeams(5, 'lettered');
+    });
+
+    // A beats B, A beats C (2 wins: both leave), D beats E
+    const playSession = (manager: QueueManager) => {
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 12 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 8 });
+    };
+
+    it('should replay later results against the corrected queue', () => {
+      const manager = new QueueManager(1);
+      playSession(manager);
+
+      const report = manager.correctMatchResult(0, [{ team: teams[0], score: 10 }, { team: teams[1], score: 15 }]);
+
+      expect(areTeamsEqual(report.result.winner, teams[1])).toBe(true);
+      const winners = manager.getMatchHistory().map(result => result.winner);
+      expect(areTeamsEqual(winners[0], teams[1])).toBe(true);
+      expect(areTeamsEqual(winners[1], teams[1])).toBe(true);
+      expect(areTeamsEqual(winners[2], teams[3])).toBe(true);
+      expect(manager.getCurrentState().queue).toEqual([teams[1], teams[2], teams[4]]);
+      expect(manager.getCourtMatch(1)!.team2).toEqual(teams[0]);
+    });
+
+    it('should report later matches played by teams the corrected queue did not put on court', () => {
+      const manager = new QueueManager(1);
+      playSession(manager);
+
+      const report = manager.correctMatchResult(0, [{ team: teams[0], score: 10 }, { team: teams[1], score: 15 }]);
+
+      // Match 4 is in progress: B is on court instead of A
+      expect(report.inconsistentMatches).toEqual([
+        { matchNumber: 2, courtId: 1, played: [teams[0], teams[2]], expected: [teams[1], teams[2]] },
+        { matchNumber: 4, courtId: 1, played: [teams[3], teams[1]], expected: [teams[3], teams[0]] }
+      ]);
+      expect(report.skippedCommands).toEqual([]);
+    });
+
+    it('should report nothing when the correction keeps the winner', () => {
+      const manager = new QueueManager(1);
+      playSession(manager);
+      const queueBefore = manager.getCurrentState().queue;
+
+      const report = manager.correctMatchResult(0, [{ team: teams[0], score: 15 }, { team: teams[1], score: 13 }]);
+
+      expect(report.inconsistentMatches).toEqual([]);
+      expect(report.result.scores![1].score).toBe(13);
+      expect(manager.getCurrentState().queue).toEqual(queueBefore);
+    });
+
+    it('should skip later calls that no longer apply', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.pauseTeam(teams[1]);
+      manager.recordResult(1, { team1Score: 15, team2Score: 12 });
+
+      const report = manager.correctMatchResult(0, [{ team: teams[0], score: 10 }, { team: teams[1], score: 15 }]);
+
+      expect(report.skippedCommands.length).toBe(1);
+      expect(report.skippedCommands[0].command.type).toBe('pauseTeam');
+      expect(report.skippedCommands[0].reason).toContain('is not in the queue');
+      expect(manager.isTeamPaused(teams[1])).toBe(false);
+    });
+
+    it('should only report in dry-run mode', () => {
+      const manager = new QueueManager(1);
+      playSession(manager);
+      const saved = manager.saveState();
+
+      const report = manager.correctMatchResult(0, [{ team: teams[0], score: 10 }, { team: teams[1], score: 15 }], { dryRun: true });
+
+      expect(report.inconsistentMatches.length).toBe(2);
+      expect(manager.saveState()).toBe(saved);
+    });
+
+    it('should be undoable, logged and replayable', () => {
+      const manager = new QueueManager(1);
+      playSession(manager);
+      const before = manager.getCurrentState();
+      const sources: string[] = [];
+      manager.on('stateRestored', ({ source }) => sources.push(source));
+
+      manager.correctMatchResult(0, [{ team: teams[0], score: 10 }, { team: teams[1], score: 15 }]);
+
+      expect(sources).toEqual(['correction']);
+      expect(manager.getSessionLog().commands.at(-1)!.type).toBe('correctMatchResult');
+      expect(replay(manager.getSessionLog()).saveState()).toBe(manager.saveState());
+
+      manager.undo();
+      expect(manager.getCurrentState()).toEqual(before);
+    });
+
+    it('should reject invalid corrections', () => {
+      const manager = new QueueManager(1);
+      playSession(manager);
+
+      expect(() => manager.correctMatchResult(3, [{ team: teams[0], score: 10 }, { team: teams[1], score: 15 }])).toThrow(InvalidMatchIndexError);
+      expect(() => manager.correctMatchResult(0, [{ team: teams[0], score: 15 }, { team: teams[1], score: 15 }])).toThrow(InvalidMatchResultError);
+      expect(() => manager.correctMatchResult(0, [{ team: teams[0], score: 10 }, { team: teams[0], score: 15 }])).toThrow(InvalidMatchResultError);
+    });
+
+    it('should correct a result whose teams an earlier correction changed', () => {
+      const manager = new QueueManager(1);
+      playSession(manager);
+      manager.recordResult(1, { team1Score: 15, team2Score: 11 });
+
+      manager.correctMatchResult(0, [{ team: teams[1], score: 15 }, { team: teams[0], score: 10 }]);
+      const { winner, loser } = manager.getMatchHistory()[1];
+      const report = manager.correctMatchResult(1, [{ team: loser, score: 15 }, { team: winner, score: 13 }]);
+
+      expect(areTeamsEqual(report.result.winner, loser)).toBe(true);
+      expect(areTeamsEqual(manager.getMatchHistory()[0].winner, teams[1])).toBe(true);
+      expect(replay(manager.getSessionLog()).saveState()).toBe(manager.saveState());
+    });
+
+    it('should replay logged corrections without recomputing them', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      for (let i = 0; i < 20; i++) {
+        manager.recordResult(1, { team1Score: 15, team2Score: 10 + (i % 4) });
+      }
+
+      // Each correction replays the log once, not once per earlier correction
+      for (let i = 0; i < 10; i++) {
+        const { winner, loser } = manager.getMatchHistory()[5];
+        manager.correctMatchResult(5, [{ team: loser, score: 15 }, { team: winner, score: 12 }]);
+      }
+
+      const command = manager.getSessionLog().commands.at(-1) as Extract<SessionCommand, { type: 'correctMatchResult' }>;
+      expect(command.corrected!.matchCounter).toBe(21);
+      expect(replay(manager.getSessionLog()).saveState()).toBe(manager.saveState());
+    });
+
+    it('should correct a result finished automatically by a score update', () => {
+      const manager = new QueueManager(1, 20, { scoringFormat: { target: 3, winBy: 2 }, autoFinish: true });
+      manager.initialize(teams);
+      manager.updateScore(1, 2, 1);
+      manager.updateScore(1, 1, 3);
+      expect(areTeamsEqual(manager.getMatchHistory()[0].winner, teams[0])).toBe(true);
+
+      const report = manager.correctMatchResult(0, [{ team: teams[0], score: 1 }, { team: teams[1], score: 3 }]);
+
+      expect(areTeamsEqual(report.result.winner, teams[1])).toBe(true);
+      expect(report.result.scores!.map(score => score.score)).toEqual([3, 1]);
+      const match = manager.getCourtMatch(1)!;
+      expect([match.team1, match.team2]).toEqual([teams[1], teams[2]]);
+    });
+
+    it('should correct a result recorded inside a batch', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.batch(() => {
+        manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+        manager.recordResult(1, { team1Score: 15, team2Score: 12 });
+      });
+
+      const report = manager.correctMatchResult(1, [{ team: teams[0], score: 13 }, { team: teams[2], score: 15 }]);
+
+      expect(areTeamsEqual(report.result.winner, teams[2])).toBe(true);
+      expect(areTeamsEqual(manager.getMatchHistory()[0].winner, teams[0])).toBe(true);
+      const match = manager.getCourtMatch(1)!;
+      expect([match.team1, match.team2]).toEqual([teams[2], teams[3]]);
+    });
+
+    it('should reject results that were not recorded by a logged call', () => {
+      const manager = new QueueManager(1, 20, { scoringFormat: { target: 3, winBy: 2 }, autoFinish: true });
+      manager.initialize(teams);
+      manager.updateScore(1, 1, 3);
+
+      const loaded = new QueueManager(1);
+      const { sessionLog, ...legacySave } = JSON.parse(manager.saveState());
+      loaded.loadState(JSON.stringify(legacySave));
+      expect(sessionLog.commands.length).toBe(2);
+      expect(() => loaded.correctMatchResult(0, [{ team: teams[0], score: 1 }, { team: teams[1], score: 3 }])).toThrow(/cannot be corrected/);
+    });
+  });
+
+  describe('Voiding Matches', () => {
+    let teams: Team[];
+
+    beforeEach(() => {
+      teams = makeTeams(5, 'lettered');
+    });
+
+    it('should exclude a voided result from statistics but keep it in the history', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 12, team2Score: 15 });
+      const queueBefore = manager.getCurrentState().queue;
+
+      manager.voidMatch(0, 'Recorded on the wrong court');
+
+      const history = manager.getMatchHistory();
+      expect(history.length).toBe(2);
+      expect(history[0].voided).toMatchObject({ reason: 'Recorded on the wrong court', rolledBack: false });
+      expect(history[0].voided!.at).toBeInstanceOf(Date);
+      expect(manager.getTeamStatistics().map(stats => stats.wins)).toEqual([1, 0]);
+      expect(areTeamsEqual(manager.getSessionWinner()!.team, teams[2])).toBe(true);
+      expect(manager.getPlayerStatistics().find(stats => stats.player.id === 2)).toBeDefined();
+      expect(manager.getLeaderboard().length).toBe(4);
+      expect(manager.getCurrentState().queue).toEqual(queueBefore);
+    });
+
+    it('should roll back the court and queue when asked', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      manager.voidMatch(0, 'Wrong court', { rollback: true });
+
+      const match = manager.getCourtMatch(1)!;
+      expect([match.team1, match.team2]).toEqual([teams[0], teams[1]]);
+      expect(match.matchNumber).toBe(1);
+      expect(manager.getCurrentState().queue).toEqual([teams[2], teams[3], teams[4]]);
+      expect(manager.getCourts()[0].consecutiveWins).toBe(0);
+      expect(manager.getCourts()[0].currentCourtTeam).toBeNull();
+      expect(manager.getMatchHistory()[0].voided!.rolledBack).toBe(true);
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(manager.getCourtMatch(1)!.matchNumber).toBe(2);
+    });
+
+    it('should restore the winning streak the result ended', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 12 });
+
+      manager.voidMatch(1, 'Wrong winner', { rollback: true });
+
+      const court = manager.getCourts()[0];
+      expect([court.currentMatch!.team1, court.currentMatch!.team2]).toEqual([teams[0], teams[2]]);
+      expect(court.consecutiveWins).toBe(1);
+      expect(court.currentCourtTeam).toEqual(teams[0]);
+      expect(manager.getCurrentState().queue).toEqual([teams[3], teams[4], teams[1]]);
+    });
+
+    it('should put pulled teams back behind the paused teams they skipped', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 4));
+      manager.pauseTeam(teams[2], { matches: 1 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(manager.getCurrentState().pausedTeams).toBeUndefined();
+
+      manager.voidMatch(0, 'Wrong court', { rollback: true });
+
+      const state = manager.getCurrentState();
+      expect(state.queue).toEqual([teams[2], teams[3]]);
+      expect(state.pausedTeams).toEqual([{ team: teams[2], matchesRemaining: 1 }]);
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      expect(manager.getCourtMatch(1)!.team2).toEqual(teams[3]);
+    });
+
+    it('should give back the match a voided result counted against a timed pause', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.pauseTeam(teams[2], { matches: 2 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      manager.voidMatch(0, 'Wrong court', { rollback: true });
+
+      const state = manager.getCurrentState();
+      expect(state.queue).toEqual([teams[2], teams[3], teams[4]]);
+      expect(state.pausedTeams).toEqual([{ team: teams[2], matchesRemaining: 2 }]);
+    });
+
+    it('should only roll back the most recent result on a court', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 12 });
+
+      expect(() => manager.voidMatch(0, 'Wrong court', { rollback: true })).toThrow(/not the most recent result/);
+      expect(manager.getMatchHistory()[0].voided).toBeUndefined();
+    });
+
+    it('should not roll back when the match the result started is no longer on the court', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.removeTeam(teams[2]);
+
+      expect(() => manager.voidMatch(0, 'Wrong court', { rollback: true })).toThrow(/no longer on court 1/);
+      expect(manager.getMatchHistory()[0].voided).toBeUndefined();
+    });
+
+    it('should not roll back when a team has left the queue since', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.removeTeam(teams[1]);
+
+      expect(() => manager.voidMatch(0, 'Wrong court', { rollback: true })).toThrow(QueueManagementError);
+    });
+
+    it('should reject invalid void requests', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      expect(() => manager.voidMatch(1, 'Typo')).toThrow(InvalidMatchIndexError);
+      expect(() => manager.voidMatch(0, '  ')).toThrow(QueueManagementError);
+      manager.voidMatch(0, 'Typo');
+      expect(() => manager.voidMatch(0, 'Typo')).toThrow(/already void/);
+    });
+
+    it('should be undoable, emit an event and survive save, load and replay', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      const voided = vi.fn();
+      manager.on('resultVoided', voided);
+
+      manager.voidMatch(0, 'Wrong court', { rollback: true });
+
+      expect(voided).toHaveBeenCalledWith({ matchIndex: 0, result: manager.getMatchHistory()[0] });
+      const loaded = new QueueManager(1);
+      loaded.loadState(manager.saveState());
+      expect(loaded.getMatchHistory()[0].voided!.at).toBeInstanceOf(Date);
+      expect(replay(manager.getSessionLog()).saveState()).toBe(manager.saveState());
+
+      manager.undo();
+      expect(manager.getMatchHistory()[0].voided).toBeUndefined();
+      expect(manager.getCourtMatch(1)!.matchNumber).toBe(2);
+    });
+  });
+
+  describe('Save Format', () => {
+    let teams: Team[];
+    let manager: QueueManager;
+
+    beforeEach(() => {
+      teams = makeTeams(4, 'lettered');
+      manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+    });
+
+    it('should write the format version and round-trip a save', () => {
+      const saved = manager.saveState();
+      expect(JSON.parse(saved).version).toBe(SAVE_FORMAT_VERSION);
+
+      const loaded = new QueueManager(1);
+      loaded.loadState(saved);
+      expect(loaded.saveState()).toBe(saved);
+    });
+
+    it('should migrate unversioned saves', () => {
+      const { version, undoStack, redoStack, ...legacySave } = JSON.parse(manager.saveState());
+      delete legacySave.state.matchHistory[0].courtId;
+
+      const loaded = new QueueManager(1);
+      loaded.loadState(JSON.stringify(legacySave));
+
+      expect(version).toBe(SAVE_FORMAT_VERSION);
+      expect(undoStack.length).toBeGreaterThan(0);
+      expect(loaded.canUndo()).toBe(false);
+      expect(loaded.getMatchHistory()[0].courtId).toBe(1);
+      expect(loaded.getCurrentState()).toEqual(manager.getCurrentState());
+    });
+
+    it('should save and restore the autoFinish setting', () => {
+      const source = new QueueManager(1, 20, { scoringFormat: { target: 3, winBy: 2 }, autoFinish: true });
+      source.initialize(teams);
+      const { sessionLog, ...withoutLog } = JSON.parse(source.saveState());
+
+      const loaded = new QueueManager(1);
+      loaded.loadState(JSON.stringify(withoutLog));
+      loaded.updateScore(1, 1, 3);
+
+      expect(sessionLog.config.autoFinish).toBe(true);
+      expect(loaded.getMatchHistory().length).toBe(1);
+      expect(replay(loaded.getSessionLog()).saveState()).toBe(loaded.saveState());
+    });
+
+    it('should take autoFinish from the session log of format 4 saves', () => {
+      const source = new QueueManager(1, 20, { scoringFormat: { target: 3, winBy: 2 }, autoFinish: true });
+      source.initialize(teams);
+      const { autoFinish, ...save } = JSON.parse(source.saveState());
+
+      const loaded = new QueueManager(1);
+      loaded.loadState(JSON.stringify({ ...save, version: 4 }));
+
+      expect(autoFinish).toBe(true);
+      expect(JSON.parse(loaded.saveState()).autoFinish).toBe(true);
+    });
+
+    it('should reject saves from a newer format version', () => {
+      const save = { ...JSON.parse(manager.saveState()), version: SAVE_FORMAT_VERSION + 1 };
+
+      expect(() => manager.loadState(JSON.stringify(save))).toThrow(InvalidSaveStateError);
+      expect(() => manager.loadState(JSON.stringify(save))).toThrow(/newer than the supported version/);
+    });
+
+    it('should report where a hand-edited save is broken', () => {
+      const expectProblem = (edit: (save: SaveData) => void, path: string) => {
+        const save = JSON.parse(manager.saveState());
+        edit(save);
+        try {
+          manager.loadState(JSON.stringify(save));
+        } catch (error) {
+          expect(error).toBeInstanceOf(InvalidSaveStateError);
+          expect((error as InvalidSaveStateError).path).toBe(path);
+          return;
+        }
+        throw new Error(`Expected a problem at ${path}`);
+      };
+
+      // Values of the wrong type are written with Object.assign, as a hand edit would
+      expectProblem(save => { Object.assign(save.state.courts[0].currentMatch!.team1.player1, { id: '1' }); }, 'state.courts[0].currentMatch.team1.player1.id');
+      expectProblem(save => { save.state.courts.push({ ...save.state.courts[0] }); }, 'state.courts[1].id');
+      expectProblem(save => { save.state.courts = []; }, 'state.courts');
+      expectProblem(save => { Reflect.deleteProperty(save.state, 'queue'); }, 'state.queue');
+      expectProblem(save => { save.state.matchHistory[0].winner = teams[3]; }, 'state.matchHistory[0].winner');
+      expectProblem(save => { Object.assign(save.state.matchHistory[0], { timestamp: 'yesterday' }); }, 'state.matchHistory[0].timestamp');
+      expectProblem(save => { Object.assign(save.state, { queueMode: 'solo' }); }, 'state.queueMode');
+      expectProblem(save => { save.matchCounter = 1; }, 'matchCounter');
+      expectProblem(save => { Object.assign(save, { autoFinish: 'yes' }); }, 'autoFinish');
+      expectProblem(save => { Object.assign(save, { undoStack: ['{}'] }); }, 'undoStack[0]');
+      expectProblem(save => { Object.assign(save.sessionLog!.commands[0], { at: null }); }, 'sessionLog.commands[0].at');
+    });
+
+    it('should leave the manager untouched when a truncated save is rejected', () => {
+      const saved = manager.saveState();
+      const other = new QueueManager(1);
+      other.initialize(teams.slice(0, 2));
+      const before = other.saveState();
+
+      expect(() => other.loadState(saved.slice(0, saved.length / 2))).toThrow('Failed to load state');
+      expect(() => other.loadState('[]')).toThrow(InvalidSaveStateError);
+      expect(() => other.loadState('null')).toThrow('Failed to load state: saved state must be an object');
+      expect(other.saveState()).toBe(before);
+    });
+  });
+
+  describe('Storage and Autosave', () => {
+    let teams: Team[];
+
+    beforeEach(() => {
+      teams = makeTeams(4, 'lettered');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should autosave once after a burst of calls', async () => {
+      vi.useFakeTimers();
+      const storage = createMemoryStorage();
+      const save = vi.spyOn(storage, 'save');
+      const manager = new QueueManager(1, 20, { autosave: { storage, debounceMs: 1000 } });
+      const autosaved = vi.fn();
+      manager.on('autosaved', autosaved);
+
+      manager.initialize(teams);
+      await vi.advanceTimersByTimeAsync(500);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      await vi.advanceTimersByTimeAsync(999);
+      expect(save).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(await storage.load()).toBe(manager.saveState());
+      expect(autosaved).toHaveBeenCalledWith({ savedState: manager.saveState() });
+    });
+
+    it('should write pending changes on flushAutosave and restore them with loadFromStorage', async () => {
+      const storage = createMemoryStorage();
+      const manager = new QueueManager(1, 20, { autosave: { storage } });
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+
+      await manager.flushAutosave();
+
+      const restored = new QueueManager(1);
+      expect(await restored.loadFromStorage(storage)).toBe(true);
+      expect(restored.saveState()).toBe(manager.saveState());
+      expect(await new QueueManager(1).loadFromStorage(createMemoryStorage())).toBe(false);
+    });
+
+    it('should report failed writes and retry on the next change', async () => {
+      const storage = createMemoryStorage();
+      vi.spyOn(storage, 'save').mockRejectedValueOnce(new Error('Disk full'));
+      const manager = new QueueManager(1, 20, { autosave: { storage } });
+      const failed = vi.fn();
+      manager.on('autosaveFailed', failed);
+
+      manager.initialize(teams);
+      await manager.flushAutosave();
+      expect(failed).toHaveBeenCalledWith({ error: new Error('Disk full') });
+      expect(await storage.load()).toBeNull();
+
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      await manager.flushAutosave();
+      expect(await storage.load()).toBe(manager.saveState());
+    });
+
+    it('should reject an invalid debounce delay', () => {
+      expect(() => new QueueManager(1, 20, { autosave: { storage: createMemoryStorage(), debounceMs: -1 } })).toThrow(QueueManagementError);
+    });
+
+    it('should replace a save file atomically', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'queue-storage-'));
+      try {
+        const filePath = join(directory, 'session.json');
+        const storage = createFileStorage(filePath);
+        expect(await storage.load()).toBeNull();
+
+        const manager = new QueueManager(1, 20, { autosave: { storage } });
+        manager.initialize(teams);
+        await manager.flushAutosave();
+        manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+        await manager.flushAutosave();
+
+        expect(await readFile(filePath, 'utf8')).toBe(manager.saveState());
+        expect(await readdir(directory)).toEqual(['session.json']);
+
+        await rm(filePath);
+        await mkdir(filePath);
+        await expect(storage.save('{}')).rejects.toThrow();
+        expect(await readdir(directory)).toEqual(['session.json']);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Undo History Storage', () => {
+    let teams: Team[];
+
+    beforeEach(() => {
+      teams = makeTeams(5, 'lettered');
+    });
+
+    const playMatches = (manager: QueueManager, count: number) => {
+      for (let i = 0; i < count; i++) {
+        manager.recordResult(1, i % 2 === 0 ? { team1Score: 15, team2Score: 10 } : { team1Score: 8, team2Score: 15 });
+      }
+    };
+
+    it('should save undo steps without repeating the match history', () => {
+      const manager = new QueueManager(1, 10);
+      manager.initialize(teams);
+      playMatches(manager, 30);
+      manager.undo();
+      manager.undo();
+
+      const { undoStack, redoStack }: SaveData = JSON.parse(manager.saveState());
+
+      expect(undoStack.length).toBe(8);
+      expect(redoStack.length).toBe(2);
+      expect(undoStack.map(entry => entry.history.length)).toEqual([20, 21, 22, 23, 24, 25, 26, 27]);
+      expect(undoStack.every(entry => Object.keys(entry.history.changed).length === 0)).toBe(true);
+      expect(redoStack.map(entry => Object.keys(entry.history.changed))).toEqual([['29'], ['28']]);
+      expect('matchHistory' in undoStack[0].state).toBe(false);
+    });
+
+    it('should undo and redo the same way after a save and load', () => {
+      const manager = new QueueManager(1, 10);
+      manager.initialize(teams);
+      playMatches(manager, 5);
+      manager.editMatchResult(1, [{ team: manager.getMatchHistory()[1].loser, score: 15 }, { team: manager.getMatchHistory()[1].winner, score: 13 }]);
+      manager.voidMatch(3, 'Wrong court');
+      manager.undo();
+
+      const loaded = new QueueManager(1, 10);
+      loaded.loadState(manager.saveState());
+
+      while (manager.canUndo()) {
+        manager.undo();
+        loaded.undo();
+        expect(loaded.getCurrentState()).toEqual(manager.getCurrentState());
+      }
+      while (manager.canRedo()) {
+        manager.redo();
+        loaded.redo();
+        expect(loaded.getCurrentState()).toEqual(manager.getCurrentState());
+      }
+      expect(loaded.getUndoDepth()).toBe(manager.getUndoDepth());
+    });
+
+    it('should leave recorded results unchanged when they are edited or voided', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      playMatches(manager, 2);
+      const [first, second] = manager.getMatchHistory();
+      const firstScores = first.scores;
+
+      manager.editMatchResult(0, [{ team: first.loser, score: 15 }, { team: first.winner, score: 12 }]);
+      manager.voidMatch(1, 'Practice match');
+
+      expect(first.scores).toBe(firstScores);
+      expect(second.voided).toBeUndefined();
+      expect(manager.getMatchHistory()[0].scores![0].score).toBe(15);
+
+      manager.undo();
+      manager.undo();
+      expect(manager.getMatchHistory()).toEqual([first, second]);
+    });
+
+    it('should migrate saves with full state snapshots', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      const snapshots: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        const { state, matchCounter } = JSON.parse(manager.saveState());
+        snapshots.push(JSON.stringify({ state, matchCounter }));
+        playMatches(manager, 1);
+      }
+      const save = { ...JSON.parse(manager.saveState()), version: 2, undoStack: snapshots, redoStack: [] };
+
+      const loaded = new QueueManager(1);
+      loaded.loadState(JSON.stringify(save));
+
+      expect(loaded.getUndoDepth()).toBe(3);
+      while (manager.canUndo()) {
+        manager.undo();
+        loaded.undo();
+        expect(loaded.getCurrentState()).toEqual(manager.getCurrentState());
+      }
+    });
+
+    it('should reject undo steps with missing results', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      playMatches(manager, 2);
+      manager.undo();
+      const save = JSON.parse(manager.saveState());
+      save.redoStack[0].history.changed = {};
+
+      expect(() => manager.loadState(JSON.stringify(save))).toThrow(InvalidSaveStateError);
+      expect(() => manager.loadState(JSON.stringify(save))).toThrow('redoStack[0].history.changed is missing result 1');
+    });
+  });
+
+  describe('Undo Timeline', () => {
+    let teams: Team[];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-06-01T18:00:00Z'));
+      teams = makeTeams(5, 'lettered');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should describe each undo step with its actor and time', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+      manager.setActor('Maria');
+      vi.advanceTimersByTime(60000);
+      manager.recordResult(2, { team1Score: 15, team2Score: 12 });
+      manager.setActor(null);
+      manager.pauseTeam(teams[3]);
+
+      const timeline = manager.getUndoTimeline();
+
+      expect(timeline.redo).toEqual([]);
+      expect(timeline.undo).toEqual([
+        { id: 2, description: 'Paused D1/D2', actor: null, timestamp: new Date('2024-06-01T18:01:00Z') },
+        { id: 1, description: 'Result on court 2 (15-12)', actor: 'Maria', timestamp: new Date('2024-06-01T18:01:00Z') }
+      ]);
+      expect(manager.getActor()).toBeNull();
+    });
+
+    it('should move steps between the undo and redo lists', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.addCourt();
+
+      manager.undo();
+      expect(manager.getUndoTimeline().undo.map(entry => entry.description)).toEqual(['Result on court 1 (15-10)']);
+      expect(manager.getUndoTimeline().redo.map(entry => entry.description)).toEqual(['Opened court 2']);
+
+      manager.redo();
+      expect(manager.getUndoTimeline().undo.map(entry => entry.id)).toEqual([2, 1]);
+      expect(manager.getUndoTimeline().redo).toEqual([]);
+    });
+
+    it('should jump several steps with revertTo', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      const initial = manager.getCurrentState();
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 11 });
+      manager.recordResult(1, { team1Score: 9, team2Score: 15 });
+      const final = manager.getCurrentState();
+      const restored = vi.fn();
+      manager.on('stateRestored', restored);
+
+      const [, , first] = manager.getUndoTimeline().undo;
+      expect(manager.revertTo(first.id)).toBe(3);
+      expect(manager.getCurrentState()).toEqual(initial);
+      expect(manager.getUndoTimeline().redo.map(entry => entry.id)).toEqual([1, 2, 3]);
+
+      expect(manager.revertTo(2)).toBe(2);
+      expect(manager.getMatchHistory().length).toBe(2);
+      expect(manager.revertTo(3)).toBe(1);
+      expect(manager.getCurrentState()).toEqual(final);
+      expect(restored.mock.calls).toEqual([[{ source: 'undo' }], [{ source: 'redo' }], [{ source: 'redo' }]]);
+
+      expect(() => manager.revertTo(42)).toThrow(QueueManagementError);
+    });
+
+    it('should keep the timeline through save, load and replay', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.setActor('Jo');
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 11 });
+      manager.revertTo(1);
+
+      const loaded = new QueueManager(1);
+      loaded.loadState(manager.saveState());
+      expect(loaded.getUndoTimeline()).toEqual(manager.getUndoTimeline());
+      expect(loaded.getUndoTimeline().redo[0].actor).toBe('Jo');
+
+      loaded.reorderTeamInQueue(0, 1);
+      expect(loaded.getUndoTimeline().undo.map(entry => entry.id)).toEqual([3]);
+      expect(replay(manager.getSessionLog()).saveState()).toBe(manager.saveState());
+    });
+
+    it('should label steps of older saves', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 11 });
+      manager.recordResult(1, { team1Score: 15, team2Score: 12 });
+      manager.undo();
+      const { lastUndoEntryId, ...save } = JSON.parse(manager.saveState());
+      for (const entry of [...save.undoStack, ...save.redoStack]) {
+        delete entry.info;
+      }
+
+      const loaded = new QueueManager(1);
+      loaded.loadState(JSON.stringify({ ...save, version: 3 }));
+      loaded.addTeams([createTeam(createPlayer(20, 'F1'), createPlayer(21, 'F2'))]);
+      loaded.undo();
+
+      expect(lastUndoEntryId).toBe(3);
+      expect(loaded.getUndoTimeline()).toEqual({
+        undo: [2, 1].map(id => ({ id, description: 'Earlier change', actor: null, timestamp: null })),
+        redo: [{ id: 4, description: 'Added 1 team(s)', actor: null, timestamp: new Date('2024-06-01T18:00:00Z') }]
+      });
+    });
+  });
+
+  describe('Transactions and Batches', () => {
+    let teams: Team[];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-06-01T18:00:00Z'));
+      teams = makeTeams(6, 'lettered');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should roll back a call that fails part-way through', () => {
+      const broken: RotationPolicy = {
+        type: 'broken',
+        options: {},
+        decide: ({ winner }) => ({ stays: winner, toQueueFront: [], toQueueBack: [] })
+      };
+      const manager = new QueueManager(1, 20, { rotationPolicy: broken });
+      manager.initialize(teams.slice(0, 3));
+      manager.addTeams([teams[3]]);
+      manager.addTeams([teams[4]]);
+      manager.undo();
+      const before = manager.saveState();
+      const timeline = manager.getUndoTimeline();
+      const listener = vi.fn();
+      manager.on('resultRecorded', listener);
+      manager.on('queueChanged', listener);
+
+      expect(() => manager.recordResult(1, { team1Score: 15, team2Score: 10 })).toThrow(QueueManagementError);
+
+      expect(manager.saveState()).toBe(before);
+      expect(manager.getUndoTimeline()).toEqual(timeline);
+      expect(manager.canRedo()).toBe(true);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should leave the redo stack alone when a result is rejected', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 3));
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      manager.undo();
+
+      expect(() => manager.recordResult(2, { team1Score: 15, team2Score: 10 })).toThrow(CourtNotFoundError);
+      expect(() => manager.recordResult(1, { team1Score: 15, team2Score: 15 })).toThrow(InvalidMatchResultError);
+
+      expect(manager.getUndoDepth()).toBe(0);
+      expect(manager.getRedoDepth()).toBe(1);
+      expect(manager.redo()).toBe(true);
+      expect(manager.getMatchHistory().length).toBe(1);
+    });
+
+    it('should undo and redo a batch as a single step', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+      const before = manager.getCurrentState();
+
+      const recorded = manager.batch(() => {
+        manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+        manager.recordResult(2, { team1Score: 12, team2Score: 15 });
+        manager.pauseTeam(teams[1]);
+        return manager.getMatchHistory().length;
+      }, 'End of round 1');
+      const after = manager.getCurrentState();
+
+      expect(recorded).toBe(2);
+      expect(manager.getUndoTimeline().undo.map(entry => entry.description)).toEqual(['End of round 1']);
+
+      manager.undo();
+      expect(manager.getCurrentState()).toEqual(before);
+      manager.redo();
+      expect(manager.getCurrentState()).toEqual(after);
+    });
+
+    it('should log a batch as one call and replay it identically', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+      vi.advanceTimersByTime(60000);
+      manager.batch(() => {
+        manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+        manager.addTeams([createTeam(createPlayer(13, 'G1'), createPlayer(14, 'G2'))]);
+      });
+
+      const command = manager.getSessionLog().commands[1];
+      expect(command).toMatchObject({ type: 'batch', description: 'Batch of changes', at: Date.parse('2024-06-01T18:01:00Z') });
+      expect((command as Extract<SessionCommand, { type: 'batch' }>).commands.map(inner => inner.type)).toEqual(['recordResult', 'addTeams']);
+      expect(replay(manager.getSessionLog()).saveState()).toBe(manager.saveState());
+    });
+
+    it('should roll back the whole batch when it throws', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+      const before = manager.saveState();
+      const listener = vi.fn();
+      manager.on('resultRecorded', listener);
+
+      expect(() => manager.batch(() => {
+        manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+        throw new Error('Scoresheet lost');
+      })).toThrow('Scoresheet lost');
+
+      expect(manager.saveState()).toBe(before);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep the rest of a batch when a failed call is caught inside it', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+
+      manager.batch(() => {
+        manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+        expect(() => manager.recordResult(2, { team1Score: 15, team2Score: 15 })).toThrow(InvalidMatchResultError);
+        manager.recordResult(2, { team1Score: 15, team2Score: 9 });
+      });
+
+      expect(manager.getMatchHistory().length).toBe(2);
+      expect(manager.getUndoDepth()).toBe(1);
+      const command = manager.getSessionLog().commands[1] as Extract<SessionCommand, { type: 'batch' }>;
+      expect(command.commands.length).toBe(2);
+    });
+
+    it('should emit events once the batch has succeeded', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+      const listener = vi.fn();
+      manager.on('resultRecorded', listener);
+
+      manager.batch(() => {
+        manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+        manager.recordResult(2, { team1Score: 15, team2Score: 9 });
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep a committed call and the other listeners when a listener throws', () => {
+      const logger = { log: vi.fn() };
+      const manager = new QueueManager(2, 20, { logger });
+      manager.initialize(teams);
+      const other = vi.fn();
+      manager.on('resultRecorded', () => {
+        throw new Error('Display offline');
+      });
+      manager.on('resultRecorded', other);
+
+      expect(() => manager.recordResult(1, { team1Score: 15, team2Score: 10 })).not.toThrow();
+
+      expect(manager.getMatchHistory().length).toBe(1);
+      expect(other).toHaveBeenCalledTimes(1);
+      expect(logger.log).toHaveBeenCalledWith('Listener for resultRecorded failed: Display offline');
+
+      // Events are still held back until a batch succeeds, and dropped when it is rolled back
+      const queueChanged = vi.fn();
+      manager.on('queueChanged', queueChanged);
+      expect(() => manager.batch(() => {
+        manager.addTeams([createTeam(createPlayer(13, 'G1'), createPlayer(14, 'G2'))]);
+        expect(queueChanged).not.toHaveBeenCalled();
+        throw new Error('Cancelled');
+      })).toThrow('Cancelled');
+      expect(queueChanged).not.toHaveBeenCalled();
+    });
+
+    it('should reject calls that replace the whole state inside a batch', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+      manager.recordResult(1, { team1Score: 15, team2Score: 10 });
+      const before = manager.saveState();
+
+      expect(() => manager.batch(() => manager.undo())).toThrow('undo() cannot be called inside a batch');
+      expect(() => manager.batch(() => manager.loadState(before))).toThrow(QueueManagementError);
+      expect(manager.saveState()).toBe(before);
+    });
+
+    it('should not log or snapshot an empty batch', () => {
+      const manager = new QueueManager(2);
+      manager.initialize(teams);
+
+      expect(manager.batch(() => 'nothing')).toBe('nothing');
+      expect(manager.getUndoDepth()).toBe(0);
+      expect(manager.getSessionLog().commands.length).toBe(1);
+    });
+
+    it('should make each updateScore call an undo step', () => {
+      const manager = new QueueManager(1, 20, { scoringFormat: { target: 3, winBy: 2 }, autoFinish: true });
+      manager.initialize(teams.slice(0, 3));
+
+      manager.updateScore(1, 1, 1);
+      manager.updateScore(1, 2, 1);
+      manager.updateScore(1, 2, -1);
+      expect(manager.getUndoTimeline().undo.map(entry => entry.description)).toEqual([
+        'Score correction for B1/B2 on court 1',
+        'Point for B1/B2 on court 1',
+        'Point for A1/A2 on court 1'
+      ]);
+
+      manager.undo();
+      expect(manager.getCourtMatch(1)!.currentScores).toEqual({ team1: 1, team2: 1 });
+
+      // A point that finishes the match is undone together with the result it recorded
+      manager.updateScore(1, 1, 2);
+      expect(manager.getMatchHistory().length).toBe(1);
+      expect(manager.getUndoTimeline().undo[0].description).toBe('Result on court 1 (3-1)');
+      manager.undo();
+      expect(manager.getMatchHistory().length).toBe(0);
+      expect(manager.getCourtMatch(1)!.currentScores).toEqual({ team1: 1, team2: 1 });
+    });
+
+    it('should make setting the server an undo step', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 3));
+
+      manager.setServer(1, 1);
+      manager.updateScore(1, 2, 1);
+      expect(manager.getUndoTimeline().undo[1].description).toBe('Server on court 1: A1');
+
+      manager.undo();
+      expect(manager.getServe(1)?.team).toBe(1);
+      manager.undo();
+      expect(manager.getServe(1)).toBeNull();
+    });
+
+    it('should keep the undo step of a point reverted with undoLastPoint', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 3));
+
+      manager.updateScore(1, 1, 1);
+      manager.updateScore(1, 2, 1);
+      manager.undoLastPoint(1);
+      expect(manager.getUndoDepth()).toBe(2);
+
+      // Undoing the reverted point changes nothing, the step before it undoes the first point
+      manager.undo();
+      expect(manager.getCourtMatch(1)!.currentScores).toEqual({ team1: 1, team2: 0 });
+      manager.undo();
+      expect(manager.getCourtMatch(1)!.events ?? []).toEqual([]);
+    });
+
+    it('should not take an undo step for a score change that is clamped away', () => {
+      const manager = new QueueManager(1);
+      manager.initialize(teams.slice(0, 3));
+
+      manager.updateScore(1, 1, -1);
+
+      expect(manager.getUndoDepth()).toBe(0);
+    });
+  });
+});
@@ -7,16 +7,169 @@ import {
   type Court,
   type TeamStatistics,
   type Score,
+  type RotationPolicy,
+  type RotationPolicyConfig,
+  type RotationContext,
+  type RotationDecision,
+  type QueueManagerOptions,
+  type GameMode,
+  type MatchScoreInput,
+  type InvalidMatchResultReason,
+  type ScoringFormat,
+  type SetScore,
+  type PointEvent,
+  type MatchEvent,
+  type SideSwitchEvent,
+  type ServeState,
+  type ServeInfo,
+  type PlayerStatistics,
+  type PartnerStatistics,
+  type QueueMode,
+  type PairingStrategy,
+  type RatingOptions,
+  type RatingHistoryEntry,
+  type PlayerRating,
+  type CloseCourtOptions,
+  type PausedTeam,
+  type InsertionPolicy,
+  type WaitTime,
+  type QueueForecastEntry,
+  type QueueForecastOptions,
+  type CourtStatistics,
+  type Logger,
+  type QueueManagerEvents,
+  type QueueManagerEventName,
+  type QueueManagerEventListener,
+  type SessionCommand,
+  type SessionConfig,
+  type SessionLog,
+  type ReplayOptions,
+  type InconsistentMatch,
+  type SkippedCommand,
+  type CorrectionReport,
+  type CorrectionOutcome,
+  type CorrectionOptions,
+  type VoidInfo,
+  type VoidMatchOptions,
+  type SaveData,
+  type SavedHistoryEntry,
+  type StorageAdapter,
+  type AutosaveOptions,
+  type UndoEntry,
+  type UndoTimeline,
+  QueueManagementError,
   InsufficientTeamsError,
   InvalidMatchResultError,
   NoActiveMatchError,
   CourtNotFoundError,
+  TeamNotFoundError,
   InvalidQueueIndexError,
-  InvalidMatchIndexError
+  InvalidMatchIndexError,
+  InvalidSaveStateError
 } from './types';
+import { createRotationPolicy, createWinnerStaysPolicy } from './rotation-policy';
+import {
+  validateScoringFormat,
+  getGameWinner,
+  checkFinalScore,
+  getSetsToWin,
+  getSetFormat,
+  rotateServe,
+  isSideSwitchDue
+} from './scoring';
+import { formTeams, nextRandom } from './team-formation';
+import { areTeamsEqual } from './teams';
+import { resolveRatingOptions, computeRatings } from './rating';
+import { validateInsertionPolicy, getInsertionIndex } from './queue-insertion';
+import { silentLogger } from './logger';
+import { SAVE_FORMAT_VERSION, migrateSave, validateSave, reviveStateDates } from './save-format';
+import { type HistoryEntry, captureEntry, copyState, restoreEntry, serializeHistory, deserializeHistory } from './undo-history';
 
 // Re-export types for convenience
-export type { Player, Team, Match, MatchResult, SystemState, Court, TeamStatistics, Score };
+export type {
+  Player,
+  Team,
+  Match,
+  MatchResult,
+  SystemState,
+  Court,
+  TeamStatistics,
+  Score,
+  RotationPolicy,
+  RotationPolicyConfig,
+  RotationContext,
+  RotationDecision,
+  QueueManagerOptions,
+  GameMode,
+  MatchScoreInput,
+  InvalidMatchResultReason,
+  ScoringFormat,
+  SetScore,
+  PointEvent,
+  MatchEvent,
+  SideSwitchEvent,
+  ServeState,
+  ServeInfo,
+  PlayerStatistics,
+  PartnerStatistics,
+  QueueMode,
+  PairingStrategy,
+  RatingOptions,
+  RatingHistoryEntry,
+  PlayerRating,
+  CloseCourtOptions,
+  PausedTeam,
+  InsertionPolicy,
+  WaitTime,
+  QueueForecastEntry,
+  QueueForecastOptions,
+  CourtStatistics,
+  Logger,
+  QueueManagerEvents,
+  QueueManagerEventName,
+  QueueManagerEventListener,
+  SessionCommand,
+  SessionConfig,
+  SessionLog,
+  ReplayOptions,
+  InconsistentMatch,
+  SkippedCommand,
+  CorrectionReport,
+  CorrectionOutcome,
+  CorrectionOptions,
+  VoidInfo,
+  VoidMatchOptions,
+  SaveData,
+  StorageAdapter,
+  AutosaveOptions,
+  UndoEntry,
+  UndoTimeline,
+  SavedHistoryEntry
+};
+export {
+  createRotationPolicy,
+  createWinnerStaysPolicy,
+  createEveryoneRotatesPolicy,
+  createKingOfTheCourtPolicy,
+  createChallengerCourtPolicy,
+  registerRotationPolicy
+} from './rotation-policy';
+export {
+  validateScoringFormat,
+  getGameWinner,
+  checkFinalScore,
+  getSetsToWin,
+  getSetFormat,
+  rotateServe,
+  isSideSwitchDue
+} from './scoring';
+export { formTeams } from './team-formation';
+export { areTeamsEqual } from './teams';
+export { getExpectedScore, getMarginMultiplier } from './rating';
+export { getInsertionIndex } from './queue-insertion';
+export { silentLogger, consoleLogger } from './logger';
+export { SAVE_FORMAT_VERSION } from './save-format';
+export { createMemoryStorage, createFileStorage } from './storage';
 
 /**
  * Queue Manager for organizing doubles matches across multiple courts
@@ -24,11 +177,31 @@ export type { Player, Team, Match, MatchResult, SystemState, Court, TeamStatisti
 export class QueueManager {
   private state: SystemState;
   private matchCounter: number = 0;
-  private undoStack: string[] = [];
-  private redoStack: string[] = [];
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private lastUndoEntryId = 0;
+  private actor: string | null = null;
   private maxHistorySize: number;
-
-  constructor(numberOfCourts: number = 1, maxHistorySize: number = 20) {
+  private rotationPolicy: RotationPolicy;
+  private scoringFormat: ScoringFormat | null;
+  private autoFinish: boolean;
+  private ratingOptions: Required<RatingOptions>;
+  private insertionPolicy: InsertionPolicy;
+  private logger: Logger;
+  private listeners: { [K in QueueManagerEventName]?: Set<QueueManagerEventListener<K>> } = {};
+  private clock: () => number;
+  private sessionConfig: SessionConfig;
+  private commandLog: SessionCommand[] = [];
+  private commandTime: number | null = null;
+  private nestedCommand = false;
+  private autosave: Required<AutosaveOptions> | null;
+  private autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private autosaveWrite: Promise<void> = Promise.resolve();
+  private transactionDepth = 0;
+  private pendingEvents: Array<() => void> = [];
+  private currentBatch: { description: string; time: number; commands: SessionCommand[]; snapshotTaken: boolean } | null = null;
+
+  constructor(numberOfCourts: number = 1, maxHistorySize: number = 20, options: QueueManagerOptions = {}) {
     if (numberOfCourts < 1) {
       throw new Error('Number of courts must be at least 1');
     }
@@ -44,438 +217,2174 @@ export class QueueManager {
       matchHistory: []
     };
     this.maxHistorySize = maxHistorySize;
+    this.rotationPolicy = options.rotationPolicy ?? createWinnerStaysPolicy();
+
+    if (options.scoringFormat) {
+      validateScoringFormat(options.scoringFormat);
+    }
+    this.scoringFormat = options.scoringFormat ?? null;
+    this.autoFinish = options.autoFinish ?? false;
+    this.ratingOptions = resolveRatingOptions(options.rating);
+
+    if (options.insertionPolicy) {
+      validateInsertionPolicy(options.insertionPolicy);
+    }
+    this.insertionPolicy = options.insertionPolicy ?? { type: 'append' };
+    this.logger = options.logger ?? silentLogger;
+    this.clock = options.clock ?? Date.now;
+
+    const debounceMs = options.autosave?.debounceMs ?? 500;
+    if (!Number.isFinite(debounceMs) || debounceMs < 0) {
+      throw new QueueManagementError(`Invalid debounceMs: ${debounceMs}. Autosave delay must be a non-negative number`);
+    }
+    this.autosave = options.autosave ? { storage: options.autosave.storage, debounceMs } : null;
+
+    this.sessionConfig = {
+      numberOfCourts,
+      maxHistorySize,
+      rotationPolicy: this.getRotationPolicyConfig(),
+      scoringFormat: this.scoringFormat,
+      autoFinish: this.autoFinish,
+      rating: this.ratingOptions,
+      insertionPolicy: this.insertionPolicy
+    };
   }
 
   /**
-   * Initialize the system with an ordered list of teams
-   * @param teams - Array of teams in initial order
-   * @throws {InsufficientTeamsError} if not enough teams for available courts
+   * Subscribe to an event
+   * Listeners are called synchronously, after the state change that triggered the event.
+   * @param event - The event name
+   * @param listener - Function called with the event payload
+   * @returns A function that unsubscribes the listener
    */
-  initialize(teams: Team[]): void {
-    const requiredTeams = this.state.courts.length * 2;
-    if (teams.length < requiredTeams) {
-      throw new InsufficientTeamsError(`At least ${requiredTeams} teams are required for ${this.state.courts.length} court(s)`);
-    }
+  on<K extends QueueManagerEventName>(event: K, listener: QueueManagerEventListener<K>): () => void {
+    // Seen as listeners of K only, so the set can be stored under the generic key
+    const byEvent: { [E in K]?: Set<QueueManagerEventListener<E>> } = this.listeners;
+    const listeners = byEvent[event] ?? new Set();
+    byEvent[event] = listeners;
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
 
-    // Assign teams to courts
-    let teamIndex = 0;
-    for (const court of this.state.courts) {
-      const team1 = teams[teamIndex++];
-      const team2 = teams[teamIndex++];
+  /**
+   * Unsubscribe a listener from an event
+   * @param event - The event name
+   * @param listener - The listener passed to on()
+   */
+  off<K extends QueueManagerEventName>(event: K, listener: QueueManagerEventListener<K>): void {
+    this.listeners[event]?.delete(listener);
+  }
 
-      this.matchCounter++;
-      court.currentMatch = {
-        team1,
-        team2,
-        matchNumber: this.matchCounter,
-        courtId: court.id
-      };
-      court.consecutiveWins = 0;
-      court.currentCourtTeam = null;
+  /**
+   * Replace the logger that receives progress messages
+   * @param logger - The new logger (use silentLogger to mute the manager)
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+  }
 
-      console.log(`Court ${court.id} initialized: Team [${team1.player1.name}, ${team1.player2.name}] vs Team [${team2.player1.name}, ${team2.player2.name}]`);
-    }
+  /**
+   * Get the policy that places teams joining the back of the queue
+   */
+  getInsertionPolicy(): InsertionPolicy {
+    return { ...this.insertionPolicy };
+  }
 
-    // Remaining teams form the queue
-    this.state.queue = teams.slice(teamIndex);
-    this.state.matchHistory = [];
+  /**
+   * Replace the insertion policy (applies to teams joining the queue from now on)
+   * @param policy - The new insertion policy
+   * @throws {QueueManagementError} if the policy is invalid
+   */
+  setInsertionPolicy(policy: InsertionPolicy): void {
+    this.transaction(() => {
+      this.beginCommand();
+      validateInsertionPolicy(policy);
+      this.insertionPolicy = { ...policy };
+      this.logCommand({ type: 'setInsertionPolicy', policy });
+    });
+  }
 
-    // Clear undo/redo history on initialize
-    this.undoStack = [];
-    this.redoStack = [];
+  /**
+   * Get the rotation policy that decides who stays on court after each match
+   */
+  getRotationPolicy(): RotationPolicy {
+    return this.rotationPolicy;
+  }
 
-    console.log(`System initialized with ${teams.length} teams across ${this.state.courts.length} court(s)`);
-    console.log(`Queue size: ${this.state.queue.length}`);
+  /**
+   * Replace the rotation policy (takes effect from the next recorded result)
+   * @param policy - The new rotation policy
+   */
+  setRotationPolicy(policy: RotationPolicy): void {
+    this.transaction(() => {
+      this.beginCommand();
+      this.rotationPolicy = policy;
+      this.logCommand({ type: 'setRotationPolicy', policy: this.getRotationPolicyConfig() });
+    });
   }
 
   /**
-   * Add teams to the queue after the system has been initialized
-   * New teams are added to the end of the queue
-   * Duplicate teams (already in queue or playing on court) are silently ignored
-   * @param teams - Array of teams to add to the queue
-   * @throws {Error} if the system has not been initialized
+   * Select the game mode of a court (takes effect from the next recorded result on that court)
+   * @param courtId - The ID of the court
+   * @param mode - A built-in game mode, or null to fall back to the manager's rotation policy
+   * @param options - Mode options (e.g. { maxConsecutiveWins: 3 } for 'challenger-court')
+   * @throws {CourtNotFoundError} if court doesn't exist
+   * @throws {QueueManagementError} if the mode or its options are invalid
    */
-  addTeams(teams: Team[]): void {
-    // Check if system is initialized (at least one court has an active match)
-    const hasActiveMatch = this.state.courts.some(court => court.currentMatch !== null);
-    if (hasActiveMatch) {
-      this.saveSnapshot();
-    }
-    if (!hasActiveMatch) {
-      throw new Error('Cannot add teams: System has not been initialized. Call initialize() first.');
-    }
+  setCourtMode(courtId: number, mode: GameMode | null, options: Record<string, unknown> = {}): void {
+    this.transaction(() => {
+      this.beginCommand();
+      const court = this.state.courts.find(c => c.id === courtId);
 
-    // Get all existing team IDs (from queue and courts)
-    const existingTeamIds = new Set<string>();
+      if (!court) {
+        throw new CourtNotFoundError(`Court ${courtId} does not exist`);
+      }
 
-    // Add teams from queue
-    for (const team of this.state.queue) {
-      existingTeamIds.add(this.getTeamKey(team));
-    }
+      // Build the policy once to validate the mode and normalize its options
+      const policy = mode ? createRotationPolicy({ type: mode, options }) : null;
 
-    // Add teams from courts
-    for (const court of this.state.courts) {
-      if (court.currentMatch) {
-        existingTeamIds.add(this.getTeamKey(court.currentMatch.team1));
-        existingTeamIds.add(this.getTeamKey(court.currentMatch.team2));
-      }
-    }
+      this.saveSnapshot(`Court ${courtId} game mode: ${mode ?? 'default'}`);
+      court.mode = policy ? { type: policy.type, options: policy.options } : undefined;
 
-    // Filter out duplicates and add new teams
-    const newTeams = teams.filter(team => {
-      const teamKey = this.getTeamKey(team);
-      return !existingTeamIds.has(teamKey);
-    });
+      this.logCommand({ type: 'setCourtMode', courtId, mode, options });
 
-    // Add new teams to end of queue
-    this.state.queue.push(...newTeams);
+      this.logger.log(`Court ${courtId} - Game mode: ${court.mode?.type ?? this.rotationPolicy.type}`);
+    });
+  }
 
-    if (newTeams.length > 0) {
-      console.log(`Added ${newTeams.length} team(s) to the queue`);
-      console.log(`Queue size: ${this.state.queue.length}`);
-    }
+  /**
+   * Get the session-wide scoring format (null if results are not checked against a format)
+   */
+  getScoringFormat(): ScoringFormat | null {
+    return this.scoringFormat;
+  }
 
-    if (newTeams.length < teams.length) {
-      console.log(`${teams.length - newTeams.length} duplicate team(s) were ignored`);
-    }
+  /**
+   * Set the session-wide scoring format used to validate results on courts without their own format
+   * @param format - The scoring format, or null to stop validating against a format
+   * @throws {InvalidScoringFormatError} if the format is invalid
+   */
+  setScoringFormat(format: ScoringFormat | null): void {
+    this.transaction(() => {
+      this.beginCommand();
+      if (format) {
+        validateScoringFormat(format);
+      }
+      this.scoringFormat = format;
+      this.logCommand({ type: 'setScoringFormat', format });
+    });
   }
 
   /**
-   * Record the result of a match on a specific court and update the queue
-   * @param courtId - The ID of the court where the match was played
-   * @param scoreMap - Object mapping scores to teams (e.g., { 15: team1, 13: team2 })
+   * Set the scoring format of a court, overriding the session scoring format
+   * @param courtId - The ID of the court
+   * @param format - The scoring format, or null to fall back to the session scoring format
    * @throws {CourtNotFoundError} if court doesn't exist
-   * @throws {NoActiveMatchError} if no match is in progress on that court
-   * @throws {InvalidMatchResultError} if teams in scoreMap don't match current match
-   * @throws {InsufficientTeamsError} if queue doesn't have enough teams after 2 consecutive wins
+   * @throws {InvalidScoringFormatError} if the format is invalid
    */
-  recordResult(courtId: number, scoreMap: Record<number, Team>): void {
-    this.saveSnapshot();
-    const court = this.state.courts.find(c => c.id === courtId);
-    
-    if (!court) {
-      throw new CourtNotFoundError(`Court ${courtId} does not exist`);
-    }
+  setCourtScoringFormat(courtId: number, format: ScoringFormat | null): void {
+    this.transaction(() => {
+      this.beginCommand();
+      const court = this.state.courts.find(c => c.id === courtId);
 
-    if (!court.currentMatch) {
-      throw new NoActiveMatchError(`No active match on court ${courtId}`);
-    }
+      if (!court) {
+        throw new CourtNotFoundError(`Court ${courtId} does not exist`);
+      }
 
-    const { team1, team2 } = court.currentMatch;
+      if (format) {
+        validateScoringFormat(format);
+      }
 
-    // Extract scores and teams from scoreMap
-    const scores = Object.entries(scoreMap).map(([score, team]) => ({
-      score: Number(score),
-      team
-    }));
+      this.saveSnapshot(`Court ${courtId} scoring format`);
+      court.scoringFormat = format ?? undefined;
+      this.logCommand({ type: 'setCourtScoringFormat', courtId, format });
+    });
+  }
 
-    // Validate that we have exactly 2 teams
-    if (scores.length !== 2) {
-      throw new InvalidMatchResultError('Score map must contain exactly 2 teams');
-    }
+  /**
+   * Initialize the system with an ordered list of teams
+   * @param teams - Array of teams in initial order
+   * @throws {InsufficientTeamsError} if not enough teams for available courts
+   */
+  initialize(teams: Team[]): void {
+    this.transaction(() => {
+      this.beginCommand();
+      const requiredTeams = this.state.courts.length * 2;
+      if (teams.length < requiredTeams) {
+        throw new InsufficientTeamsError(`At least ${requiredTeams} teams are required for ${this.state.courts.length} court(s)`);
+      }
 
-    // Validate that both teams are part of the current match
-    const validTeams = scores.every(s => 
-      areTeamsEqual(s.team, team1) || areTeamsEqual(s.team, team2)
-    );
-    
-    if (!validTeams) {
-      throw new InvalidMatchResultError('Teams in score map must be part of the current match');
-    }
+      // Assign teams to courts
+      let teamIndex = 0;
+      for (const court of this.state.courts) {
+        const team1 = teams[teamIndex++];
+        const team2 = teams[teamIndex++];
+
+        this.matchCounter++;
+        court.currentMatch = {
+          team1,
+          team2,
+          matchNumber: this.matchCounter,
+          courtId: court.id,
+          startedAt: new Date(this.now())
+        };
+        court.consecutiveWins = 0;
+        court.currentCourtTeam = null;
+
+        this.logger.log(`Court ${court.id} initialized: Team [${team1.player1.name}, ${team1.player2.name}] vs Team [${team2.player1.name}, ${team2.player2.name}]`);
+      }
 
-    // Determine winner and loser based on scores
-    scores.sort((a, b) => b.score - a.score);
-    const winner = scores[0].team;
-    const loser = scores[1].team;
+      // Remaining teams form the queue
+      this.state.queue = teams.slice(teamIndex);
+      this.state.waitTimes = {};
+      this.markQueued(this.state.queue);
+      this.state.matchHistory = [];
+      this.state.queueMode = 'teams';
+      delete this.state.playerQueue;
+      delete this.state.pairing;
+      delete this.state.randomSeed;
+      delete this.state.pausedTeams;
 
-    // Record match result
-    const result: MatchResult = {
-      match: court.currentMatch,
-      winner,
-      loser,
-      timestamp: new Date(),
-      courtId: court.id,
-      scores: [
-        { team: winner, score: scores[0].score },
-        { team: loser, score: scores[1].score }
-      ]
-    };
-    this.state.matchHistory.push(result);
+      // Clear undo/redo history on initialize
+      this.undoStack = [];
+      this.redoStack = [];
 
-    console.log(`Court ${courtId} - Match ${court.currentMatch.matchNumber} result: Team [${winner.player1.name}, ${winner.player2.name}] won`);
+      this.logCommand({ type: 'initialize', teams });
 
-    // Update consecutive wins counter
-    if (court.currentCourtTeam && areTeamsEqual(winner, court.currentCourtTeam)) {
-      court.consecutiveWins++;
-    } else {
-      court.consecutiveWins = 1;
-      court.currentCourtTeam = winner;
-    }
+      this.logger.log(`System initialized with ${teams.length} teams across ${this.state.courts.length} court(s)`);
+      this.logger.log(`Queue size: ${this.state.queue.length}`);
+
+      for (const court of this.state.courts) {
+        this.emit('matchStarted', { courtId: court.id, match: court.currentMatch! });
+      }
+      this.emitQueueChanged();
+    });
+  }
+
+  /**
+   * Initialize the system in individual-player mode: players queue alone and are paired into teams automatically
+   * @param players - Array of players in arrival order
+   * @param options - pairing: how players are paired ('rotating' by default); seed: seed for random pairings
+   * @throws {InsufficientTeamsError} if not enough players for available courts
+   * @throws {QueueManagementError} if a player appears twice
+   */
+  initializePlayers(players: Player[], options: { pairing?: PairingStrategy; seed?: number } = {}): void {
+    this.transaction(() => {
+      this.beginCommand();
+      const requiredPlayers = this.state.courts.length * 4;
+      if (players.length < requiredPlayers) {
+        throw new InsufficientTeamsError(`At least ${requiredPlayers} players are required for ${this.state.courts.length} court(s)`);
+      }
 
-    console.log(`Court ${courtId} - Consecutive wins: ${court.consecutiveWins}`);
+      if (new Set(players.map(p => p.id)).size !== players.length) {
+        throw new QueueManagementError('Each player can only be added once');
+      }
 
-    // Apply queue management rules
-    if (court.consecutiveWins >= 2 && this.state.queue.length >= 2) {
-      // Rule: After 2 consecutive wins, both teams go to the end of the queue
-      // Winner goes first, then loser
-      console.log(`Court ${courtId} - 2 consecutive wins reached! Both teams return to queue.`);
-      
-      // Check if we have enough teams in queue for next match BEFORE adding current teams
-      if (this.state.queue.length < 2) {
-        throw new InsufficientTeamsError(`Not enough teams in queue to continue on court ${courtId} after 2 consecutive wins`);
+      this.state.queueMode = 'players';
+      this.state.queue = [];
+      this.state.playerQueue = [...players];
+      this.state.pairing = options.pairing ?? 'rotating';
+      const seed = options.seed ?? this.now();
+      this.state.randomSeed = seed;
+      this.state.matchHistory = [];
+      delete this.state.pausedTeams;
+      delete this.state.waitTimes;
+
+      // Form teams for every court from the first players
+      for (const court of this.state.courts) {
+        const [team1, team2] = this.takeTeamsFromQueue(2, court);
+
+        this.matchCounter++;
+        court.currentMatch = {
+          team1,
+          team2,
+          matchNumber: this.matchCounter,
+          courtId: court.id,
+          startedAt: new Date(this.now())
+        };
+        court.consecutiveWins = 0;
+        court.currentCourtTeam = null;
+
+        this.logger.log(`Court ${court.id} initialized: Team [${team1.player1.name}, ${team1.player2.name}] vs Team [${team2.player1.name}, ${team2.player2.name}]`);
       }
 
-      // Next two teams from queue play
-      const nextTeam1 = this.state.queue.shift()!;
-      const nextTeam2 = this.state.queue.shift()!;
+      // Clear undo/redo history on initialize
+      this.undoStack = [];
+      this.redoStack = [];
 
-      // Now add the current teams to the back of the queue
-      this.state.queue.push(winner);
-      this.state.queue.push(loser);
+      this.logCommand({ type: 'initializePlayers', players, pairing: options.pairing, seed });
 
-      court.consecutiveWins = 0;
-      court.currentCourtTeam = null;
+      this.logger.log(`System initialized with ${players.length} players across ${this.state.courts.length} court(s) (${this.state.pairing} pairing)`);
+      this.logger.log(`Queue size: ${this.state.playerQueue.length} player(s)`);
 
-      this.matchCounter++;
-      court.currentMatch = {
-        team1: nextTeam1,
-        team2: nextTeam2,
-        matchNumber: this.matchCounter,
-        courtId: court.id
-      };
+      for (const court of this.state.courts) {
+        this.emit('matchStarted', { courtId: court.id, match: court.currentMatch! });
+      }
+      this.emitQueueChanged();
+    });
+  }
 
-      console.log(`Court ${courtId} - Next match: Team [${nextTeam1.player1.name}, ${nextTeam1.player2.name}] vs Team [${nextTeam2.player1.name}, ${nextTeam2.player2.name}]`);
-    } else {
-      // Rule: Winner stays, loser goes to end of queue
-      console.log(`Court ${courtId} - Winner stays on court, loser goes to end of queue.`);
-      
-      this.state.queue.push(loser);
+  /**
+   * Add players to the queue in individual-player mode
+   * New players are added to the end of the queue
+   * Duplicate players (already in queue or playing on court) are silently ignored
+   * @param players - Array of players to add to the queue
+   * @throws {Error} if the system has not been initialized in individual-player mode
+   */
+  addPlayers(players: Player[]): void {
+    this.transaction(() => {
+      this.beginCommand();
+      if (this.state.queueMode !== 'players' || !this.state.playerQueue) {
+        throw new Error('Cannot add players: System has not been initialized with initializePlayers().');
+      }
+
+      this.saveSnapshot(`Added ${players.length} player(s)`);
 
-      // Check if we have a team in queue for next match
-      if (this.state.queue.length < 1) {
-        throw new InsufficientTeamsError(`Not enough teams in queue to continue on court ${courtId}`);
+      const existingIds = new Set(this.state.playerQueue.map(p => p.id));
+      for (const court of this.state.courts) {
+        if (court.currentMatch) {
+          for (const team of [court.currentMatch.team1, court.currentMatch.team2]) {
+            existingIds.add(team.player1.id);
+            existingIds.add(team.player2.id);
+          }
+        }
       }
 
-      // Winner plays against next team from queue
-      const nextOpponent = this.state.queue.shift()!;
+      const newPlayers = players.filter(player => {
+        if (existingIds.has(player.id)) {
+          return false;
+        }
+        existingIds.add(player.id);
+        return true;
+      });
 
-      this.matchCounter++;
-      court.currentMatch = {
-        team1: winner,
-        team2: nextOpponent,
-        matchNumber: this.matchCounter,
-        courtId: court.id
-      };
+      this.state.playerQueue.push(...newPlayers);
+      this.logCommand({ type: 'addPlayers', players });
 
-      console.log(`Court ${courtId} - Next match: Team [${winner.player1.name}, ${winner.player2.name}] vs Team [${nextOpponent.player1.name}, ${nextOpponent.player2.name}]`);
-    }
+      if (newPlayers.length > 0) {
+        this.logger.log(`Added ${newPlayers.length} player(s) to the queue`);
+        this.logger.log(`Queue size: ${this.state.playerQueue.length} player(s)`);
+        this.emitQueueChanged();
+      }
 
-    console.log(`Queue size: ${this.state.queue.length}\n`);
+      if (newPlayers.length < players.length) {
+        this.logger.log(`${players.length - newPlayers.length} duplicate player(s) were ignored`);
+      }
+    });
   }
 
   /**
-   * Get the current state of the system
+   * Add teams to the queue after the system has been initialized
+   * New teams are added to the end of the queue
+   * Duplicate teams (already in queue or playing on court) are silently ignored
+   * @param teams - Array of teams to add to the queue
+   * @throws {Error} if the system has not been initialized
    */
-  getCurrentState(): SystemState {
-    return {
-      courts: this.state.courts.map(court => ({
-        id: court.id,
-        currentMatch: court.currentMatch,
-        consecutiveWins: court.consecutiveWins,
-        currentCourtTeam: court.currentCourtTeam
-      })),
-      queue: [...this.state.queue],
-      matchHistory: [...this.state.matchHistory]
-    };
+  addTeams(teams: Team[], policy: InsertionPolicy = this.insertionPolicy): void {
+    this.transaction(() => {
+      this.beginCommand();
+      // Check if system is initialized (at least one court has an active match)
+      const hasActiveMatch = this.state.courts.some(court => court.currentMatch !== null);
+      if (!hasActiveMatch) {
+        throw new Error('Cannot add teams: System has not been initialized. Call initialize() first.');
+      }
+      if (this.state.queueMode === 'players') {
+        throw new QueueManagementError('Cannot add teams in individual-player mode. Use addPlayers() instead.');
+      }
+      validateInsertionPolicy(policy);
+      this.saveSnapshot(`Added ${teams.length} team(s)`);
+
+      // Get all existing team IDs (from queue and courts)
+      const existingTeamIds = new Set<string>();
+
+      // Add teams from queue
+      for (const team of this.state.queue) {
+        existingTeamIds.add(this.getTeamKey(team));
+      }
+
+      // Add teams from courts
+      for (const court of this.state.courts) {
+        if (court.currentMatch) {
+          existingTeamIds.add(this.getTeamKey(court.currentMatch.team1));
+          existingTeamIds.add(this.getTeamKey(court.currentMatch.team2));
+        }
+      }
+
+      // Filter out duplicates and add new teams
+      const newTeams = teams.filter(team => {
+        const teamKey = this.getTeamKey(team);
+        return !existingTeamIds.has(teamKey);
+      });
+
+      // Place new teams according to the insertion policy
+      this.insertIntoQueue(newTeams, policy);
+      this.logCommand({ type: 'addTeams', teams, policy });
+
+      if (newTeams.length > 0) {
+        this.logger.log(`Added ${newTeams.length} team(s) to the queue`);
+        this.logger.log(`Queue size: ${this.state.queue.length}`);
+        this.emitQueueChanged();
+      }
+
+      if (newTeams.length < teams.length) {
+        this.logger.log(`${teams.length - newTeams.length} duplicate team(s) were ignored`);
+      }
+    });
   }
 
   /**
-   * Get the current match on a specific court
-   * @param courtId - The ID of the court
+   * Open a new court during a running session and start a match on it with the next teams in the queue
+   * @returns The ID of the new court (one more than the highest court ID used in the session, so the
+   *   results of a closed court are never attributed to the new one)
+   * @throws {Error} if the system has not been initialized
+   * @throws {InsufficientTeamsError} if the queue doesn't have 2 teams (or 4 players) waiting
    */
-  getCourtMatch(courtId: number): Match | null {
-    const court = this.state.courts.find(c => c.id === courtId);
-    return court?.currentMatch || null;
+  addCourt(): number {
+    return this.transaction(() => {
+      this.beginCommand();
+      const hasActiveMatch = this.state.courts.some(court => court.currentMatch !== null);
+      if (!hasActiveMatch) {
+        throw new Error('Cannot add a court: System has not been initialized. Call initialize() first.');
+      }
+      if (this.getWaitingTeamCount() < 2) {
+        throw new InsufficientTeamsError('Not enough teams in queue to open a new court');
+      }
+
+      const usedIds = [...this.state.courts.map(c => c.id), ...this.state.matchHistory.map(result => result.courtId ?? 0)];
+      const courtId = Math.max(...usedIds) + 1;
+      this.saveSnapshot(`Opened court ${courtId}`);
+
+      const court: Court = {
+        id: courtId,
+        currentMatch: null,
+        consecutiveWins: 0,
+        currentCourtTeam: null
+      };
+      this.state.courts.push(court);
+
+      const [team1, team2] = this.takeTeamsFromQueue(2, court);
+      this.matchCounter++;
+      court.currentMatch = {
+        team1,
+        team2,
+        matchNumber: this.matchCounter,
+        courtId: court.id,
+        startedAt: new Date(this.now())
+      };
+      this.logCommand({ type: 'addCourt' });
+
+      this.logger.log(`Court ${court.id} opened: Team [${team1.player1.name}, ${team1.player2.name}] vs Team [${team2.player1.name}, ${team2.player2.name}]`);
+      this.emit('courtOpened', { courtId: court.id });
+      this.emit('matchStarted', { courtId: court.id, match: court.currentMatch });
+      this.emitQueueChanged();
+      return court.id;
+    });
   }
 
   /**
-   * Update the score for a team in an active match
-   * @param courtId - The ID of the court
-   * @param teamIndex - Which team (1 or 2)
-   * @param delta - The amount to change the score by (positive or negative)
+   * Close a court during a running session
+   * The match in progress is abandoned (not recorded) and both teams return to the queue.
+   * @param courtId - The ID of the court to close
+   * @param options - Where the teams go in the queue (front by default)
    * @throws {CourtNotFoundError} if court doesn't exist
-   * @throws {NoActiveMatchError} if no match is in progress on that court
+   * @throws {QueueManagementError} if it is the last open court
    */
-  updateScore(courtId: number, teamIndex: 1 | 2, delta: number): void {
-    const court = this.state.courts.find(c => c.id === courtId);
-    
-    if (!court) {
-      throw new CourtNotFoundError(`Court ${courtId} does not exist`);
-    }
+  closeCourt(courtId: number, options: CloseCourtOptions = {}): void {
+    this.transaction(() => {
+      this.beginCommand();
+      const court = this.state.courts.find(c => c.id === courtId);
 
-    if (!court.currentMatch) {
-      throw new NoActiveMatchError(`No active match on court ${courtId}`);
-    }
+      if (!court) {
+        throw new CourtNotFoundError(`Court ${courtId} does not exist`);
+      }
+      if (this.state.courts.length === 1) {
+        throw new QueueManagementError('Cannot close the last court');
+      }
 
-    // Initialize scores if not present
-    if (!court.currentMatch.currentScores) {
-      court.currentMatch.currentScores = { team1: 0, team2: 0 };
-    }
+      const returnTo = options.returnTo ?? 'front';
+      if (returnTo !== 'front' && returnTo !== 'back') {
+        throw new QueueManagementError(`Invalid returnTo: ${returnTo}. Expected 'front' or 'back'`);
+      }
 
-    // Update the appropriate team's score
-    if (teamIndex === 1) {
-      court.currentMatch.currentScores.team1 = Math.max(0, court.currentMatch.currentScores.team1 + delta);
-    } else {
-      court.currentMatch.currentScores.team2 = Math.max(0, court.currentMatch.currentScores.team2 + delta);
-    }
-  }
+      this.saveSnapshot(`Closed court ${courtId}`);
 
-  /**
-   * Get all courts
-   */
-  getCourts(): Court[] {
-    return this.state.courts.map(court => ({ ...court }));
-  }
+      const teams = court.currentMatch ? [court.currentMatch.team1, court.currentMatch.team2] : [];
+      if (returnTo === 'front') {
+        this.returnToQueue(teams, []);
+      } else {
+        this.returnToQueue([], teams);
+      }
+      this.state.courts = this.state.courts.filter(c => c.id !== courtId);
+      this.logCommand({ type: 'closeCourt', courtId, options });
 
-  /**
-   * Get match history
-   */
-  getMatchHistory(): MatchResult[] {
-    return [...this.state.matchHistory];
+      this.logger.log(`Court ${courtId} closed. ${teams.length} team(s) returned to the ${returnTo} of the queue`);
+      this.emit('courtClosed', { courtId });
+      this.emitQueueChanged();
+    });
   }
 
   /**
-   * Get statistics for all teams that have played in the session
-   * @returns Array of team statistics sorted by wins (descending) then total points (descending)
+   * Withdraw a team from the session
+   * A team in the queue is simply removed. A team on court abandons its match (not recorded):
+   * the opponent keeps the court and the next team in the queue takes the free spot.
+   * @param team - The team to remove (compared by player IDs)
+   * @throws {TeamNotFoundError} if the team is neither in the queue nor on a court
+   * @throws {InsufficientTeamsError} if the team is on court and no team is waiting to replace it
    */
-  getTeamStatistics(): TeamStatistics[] {
-    const statsMap = new Map<string, TeamStatistics>();
+  removeTeam(team: Team): void {
+    this.transaction(() => {
+      this.beginCommand();
+      const location = this.locateTeam(team);
 
-    // Process each match result
-    for (const result of this.state.matchHistory) {
-      const winnerKey = this.getTeamKey(result.winner);
-      const loserKey = this.getTeamKey(result.loser);
+      if (!location) {
+        throw new TeamNotFoundError(`Team [${team.player1.name}, ${team.player2.name}] is not in the queue or on a court`);
+      }
 
-      // Initialize winner stats if not exists
-      if (!statsMap.has(winnerKey)) {
-        statsMap.set(winnerKey, {
-          team: result.winner,
-          wins: 0,
-          losses: 0,
-          totalPoints: 0,
-          pointsAgainst: 0
-        });
+      if ('queueIndex' in location) {
+        this.saveSnapshot(`Removed ${formatTeam(team)}`);
+        this.state.queue.splice(location.queueIndex, 1);
+        this.markDequeued([team]);
+        this.state.pausedTeams = this.state.pausedTeams?.filter(entry => !areTeamsEqual(entry.team, team));
+        this.logCommand({ type: 'removeTeam', team });
+        this.logger.log(`Team [${team.player1.name}, ${team.player2.name}] removed from the queue`);
+        this.emitQueueChanged();
+        return;
       }
 
-      // Initialize loser stats if not exists
-      if (!statsMap.has(loserKey)) {
-        statsMap.set(loserKey, {
-          team: result.loser,
+      const { court, slot } = location;
+      if (this.getWaitingTeamCount() < 1) {
+        throw new InsufficientTeamsError(`Not enough teams in queue to replace a team on court ${court.id}`);
+      }
+
+      this.saveSnapshot(`Removed ${formatTeam(team)}`);
+
+      const match = court.currentMatch!;
+      const opponent = slot === 'team1' ? match.team2 : match.team1;
+      const [replacement] = this.takeTeamsFromQueue(1, court);
+
+      if (!court.currentCourtTeam || !areTeamsEqual(court.currentCourtTeam, opponent)) {
+        court.consecutiveWins = 0;
+        court.currentCourtTeam = null;
+      }
+
+      this.matchCounter++;
+      court.currentMatch = {
+        team1: slot === 'team1' ? replacement : opponent,
+        team2: slot === 'team2' ? replacement : opponent,
+        matchNumber: this.matchCounter,
+        courtId: court.id,
+        startedAt: new Date(this.now())
+      };
+      this.logCommand({ type: 'removeTeam', team });
+
+      this.logger.log(`Court ${court.id} - Team [${team.player1.name}, ${team.player2.name}] withdrew. Team [${replacement.player1.name}, ${replacement.player2.name}] takes their place`);
+      this.emit('matchStarted', { courtId: court.id, match: court.currentMatch });
+      this.emitQueueChanged();
+    });
+  }
+
+  /**
+   * Replace one player of a team, in the queue or on court
+   * Matches already played stay attributed to the original team and players; statistics for the
+   * new pairing start from the next recorded result. A team on court keeps its winning streak.
+   * @param team - The team (compared by player IDs)
+   * @param oldPlayer - The player leaving the team
+   * @param newPlayer - The player joining the team
+   * @returns The updated team
+   * @throws {TeamNotFoundError} if the team is neither in the queue nor on a court
+   * @throws {QueueManagementError} if oldPlayer is not in the team or newPlayer is already in the session
+   */
+  substitutePlayer(team: Team, oldPlayer: Player, newPlayer: Player): Team {
+    return this.transaction(() => {
+      this.beginCommand();
+      const location = this.locateTeam(team);
+
+      if (!location) {
+        throw new TeamNotFoundError(`Team [${team.player1.name}, ${team.player2.name}] is not in the queue or on a court`);
+      }
+      if (team.player1.id !== oldPlayer.id && team.player2.id !== oldPlayer.id) {
+        throw new QueueManagementError(`Player ${oldPlayer.name} is not in team [${team.player1.name}, ${team.player2.name}]`);
+      }
+      if (this.isPlayerInSession(newPlayer)) {
+        throw new QueueManagementError(`Player ${newPlayer.name} is already in the queue or on a court`);
+      }
+
+      this.saveSnapshot(`${newPlayer.name} replaced ${oldPlayer.name}`);
+
+      const swap = (player: Player) => (player.id === oldPlayer.id ? newPlayer : player);
+
+      if ('queueIndex' in location) {
+        const current = this.state.queue[location.queueIndex];
+        const updated = { player1: swap(current.player1), player2: swap(current.player2) };
+        this.state.queue[location.queueIndex] = updated;
+        const paused = this.state.pausedTeams?.find(entry => areTeamsEqual(entry.team, current));
+        if (paused) {
+          paused.team = updated;
+        }
+        if (this.state.waitTimes?.[this.getTeamKey(current)]) {
+          this.state.waitTimes[this.getTeamKey(updated)] = this.state.waitTimes[this.getTeamKey(current)];
+          delete this.state.waitTimes[this.getTeamKey(current)];
+        }
+        this.logCommand({ type: 'substitutePlayer', team, oldPlayer, newPlayer });
+        this.logger.log(`Team [${current.player1.name}, ${current.player2.name}] - ${newPlayer.name} replaces ${oldPlayer.name}`);
+        this.emitQueueChanged();
+        return updated;
+      }
+
+      const { court, slot } = location;
+      const match = court.currentMatch!;
+      const current = match[slot];
+      const updated = { player1: swap(current.player1), player2: swap(current.player2) };
+      match[slot] = updated;
+
+      if (court.currentCourtTeam && areTeamsEqual(court.currentCourtTeam, current)) {
+        court.currentCourtTeam = updated;
+      }
+
+      if (match.serve) {
+        match.serve = {
+          ...match.serve,
+          player: swap(match.serve.player),
+          lastServer: {
+            team1: match.serve.lastServer.team1 && swap(match.serve.lastServer.team1),
+            team2: match.serve.lastServer.team2 && swap(match.serve.lastServer.team2)
+          }
+        };
+      }
+      this.logCommand({ type: 'substitutePlayer', team, oldPlayer, newPlayer });
+
+      this.logger.log(`Court ${court.id} - Team [${current.player1.name}, ${current.player2.name}] - ${newPlayer.name} replaces ${oldPlayer.name}`);
+      return updated;
+    });
+  }
+
+  /**
+   * Pause a team in the queue (e.g. for a water break)
+   * The team keeps its place in the queue but is skipped when the next teams are pulled onto a court.
+   * Pausing a team that is already paused replaces its pause.
+   * @param team - The team to pause (compared by player IDs)
+   * @param options - `matches`: resume automatically after this many recorded matches (default: until resumeTeam())
+   * @throws {TeamNotFoundError} if the team is not in the queue
+   * @throws {QueueManagementError} if matches is not a positive integer
+   */
+  pauseTeam(team: Team, options: { matches?: number } = {}): void {
+    this.transaction(() => {
+      this.beginCommand();
+      const queued = this.state.queue.find(t => areTeamsEqual(t, team));
+
+      if (!queued) {
+        throw new TeamNotFoundError(`Team [${team.player1.name}, ${team.player2.name}] is not in the queue`);
+      }
+      if (options.matches !== undefined && (!Number.isInteger(options.matches) || options.matches < 1)) {
+        throw new QueueManagementError(`Invalid matches: ${options.matches}. Pause length must be a positive integer`);
+      }
+
+      this.saveSnapshot(`Paused ${formatTeam(team)}`);
+
+      const pausedTeams = (this.state.pausedTeams ?? []).filter(entry => !areTeamsEqual(entry.team, team));
+      pausedTeams.push({ team: queued, matchesRemaining: options.matches ?? null });
+      this.state.pausedTeams = pausedTeams;
+      this.logCommand({ type: 'pauseTeam', team, matches: options.matches });
+
+      this.logger.log(`Team [${team.player1.name}, ${team.player2.name}] paused${options.matches ? ` for ${options.matches} match(es)` : ''}`);
+      this.emitQueueChanged();
+    });
+  }
+
+  /**
+   * Resume a paused team: it is pulled from its place in the queue again
+   * @param team - The team to resume (compared by player IDs)
+   * @throws {QueueManagementError} if the team is not paused
+   */
+  resumeTeam(team: Team): void {
+    this.transaction(() => {
+      this.beginCommand();
+      if (!this.isTeamPaused(team)) {
+        throw new QueueManagementError(`Team [${team.player1.name}, ${team.player2.name}] is not paused`);
+      }
+
+      this.saveSnapshot(`Resumed ${formatTeam(team)}`);
+      this.state.pausedTeams = this.state.pausedTeams!.filter(entry => !areTeamsEqual(entry.team, team));
+      this.logCommand({ type: 'resumeTeam', team });
+
+      this.logger.log(`Team [${team.player1.name}, ${team.player2.name}] resumed`);
+      this.emitQueueChanged();
+    });
+  }
+
+  /**
+   * Check whether a team in the queue is paused
+   */
+  isTeamPaused(team: Team): boolean {
+    return (this.state.pausedTeams ?? []).some(entry => areTeamsEqual(entry.team, team));
+  }
+
+  /**
+   * Get the total time a team has spent waiting in the queue in this session
+   * @returns Time in milliseconds, including the current wait if the team is in the queue
+   */
+  getWaitTime(team: Team): number {
+    return this.measureWaitTime(team, this.clock());
+  }
+
+  /**
+   * Record the result of a match on a specific court and update the queue
+   * @param courtId - The ID of the court where the match was played
+   * @param scores - Final scores aligned with the current match's team1/team2 (e.g., { team1Score: 15, team2Score: 13 })
+   * @throws {CourtNotFoundError} if court doesn't exist
+   * @throws {NoActiveMatchError} if no match is in progress on that court
+   * @throws {InvalidMatchResultError} if scores are invalid, tied without a tie-break winner, or impossible under the scoring format
+   * @throws {InsufficientTeamsError} if queue doesn't have enough teams to refill the court
+   */
+  recordResult(courtId: number, scores: MatchScoreInput): void;
+  /**
+   * Record the result of a match on a specific court and update the queue
+   * @param courtId - The ID of the court where the match was played
+   * @param scoreMap - Object mapping scores to teams (e.g., { 15: team1, 13: team2 })
+   * @throws {CourtNotFoundError} if court doesn't exist
+   * @throws {NoActiveMatchError} if no match is in progress on that court
+   * @throws {InvalidMatchResultError} if teams in scoreMap don't match current match or scores are impossible under the scoring format
+   * @throws {InsufficientTeamsError} if queue doesn't have enough teams to refill the court
+   */
+  recordResult(courtId: number, scoreMap: Record<number, Team>): void;
+  recordResult(courtId: number, input: MatchScoreInput | Record<number, Team>): void {
+    this.transaction(() => {
+      this.beginCommand();
+      const court = this.state.courts.find(c => c.id === courtId);
+    
+      if (!court) {
+        throw new CourtNotFoundError(`Court ${courtId} does not exist`);
+      }
+
+      if (!court.currentMatch) {
+        throw new NoActiveMatchError(`No active match on court ${courtId}`);
+      }
+
+      if (getSetsToWin(this.getCourtScoringFormat(court)) > 1) {
+        throw new InvalidMatchResultError(`Court ${courtId} plays best-of-N sets; record each set with recordSetResult()`);
+      }
+
+      const scores = isMatchScoreInput(input)
+        ? this.resolveScoreInput(court.currentMatch, input)
+        : this.resolveScoreMap(court.currentMatch, input);
+      this.checkScoresAgainstFormat(court, scores);
+
+      this.saveSnapshot(`Result on court ${courtId} (${scores[0].score}-${scores[1].score})`);
+      this.completeMatch(court, scores, { type: 'recordResult', courtId, scores: input });
+    });
+  }
+
+  /**
+   * Record the result of one set of a best-of-N match; the match is completed once a team has won enough sets
+   * @param courtId - The ID of the court where the set was played
+   * @param scores - Set scores aligned with the current match's team1/team2
+   * @returns true if the set decided the match (the result was recorded and the queue updated)
+   * @throws {CourtNotFoundError} if court doesn't exist
+   * @throws {NoActiveMatchError} if no match is in progress on that court
+   * @throws {InvalidMatchResultError} if scores are invalid, tied, or impossible under the court's scoring format
+   * @throws {InsufficientTeamsError} if queue doesn't have enough teams to refill the court
+   */
+  recordSetResult(courtId: number, scores: MatchScoreInput): boolean {
+    return this.transaction(() => {
+      this.beginCommand();
+      const court = this.state.courts.find(c => c.id === courtId);
+
+      if (!court) {
+        throw new CourtNotFoundError(`Court ${courtId} does not exist`);
+      }
+
+      if (!court.currentMatch) {
+        throw new NoActiveMatchError(`No active match on court ${courtId}`);
+      }
+
+      const match = court.currentMatch;
+      const sets = match.sets ?? [];
+      const format = this.getCourtScoringFormat(court);
+
+      validateScoreValue(scores.team1Score, 'team1Score');
+      validateScoreValue(scores.team2Score, 'team2Score');
+      if (scores.team1Score === scores.team2Score) {
+        throw new InvalidMatchResultError(`Set scores cannot be tied (${scores.team1Score}-${scores.team2Score})`, 'TIED_SCORE');
+      }
+
+      if (format) {
+        const problem = checkFinalScore(
+          getSetFormat(format, sets.length),
+          Math.max(scores.team1Score, scores.team2Score),
+          Math.min(scores.team1Score, scores.team2Score)
+        );
+        if (problem) {
+          throw new InvalidMatchResultError(`Set ${sets.length + 1}: ${problem}`, 'IMPOSSIBLE_SCORE');
+        }
+      }
+
+      this.saveSnapshot(`Set ${sets.length + 1} on court ${courtId} (${scores.team1Score}-${scores.team2Score})`);
+      match.sets = [...sets, { team1: scores.team1Score, team2: scores.team2Score }];
+      match.currentScores = undefined;
+
+      const [team1Sets, team2Sets] = countSetsWon(match.sets);
+      this.logger.log(`Court ${courtId} - Match ${match.matchNumber} set ${match.sets.length}: ${scores.team1Score}-${scores.team2Score} (sets ${team1Sets}-${team2Sets})`);
+
+      const setsToWin = getSetsToWin(format);
+      if (team1Sets < setsToWin && team2Sets < setsToWin) {
+        this.logCommand({ type: 'recordSetResult', courtId, scores });
+        this.emit('scoreChanged', { courtId, scores: { team1: 0, team2: 0 } });
+        return false;
+      }
+
+      // Winner is derived from sets won; scores hold the total points of the match
+      const team1Points = match.sets.reduce((sum, set) => sum + set.team1, 0);
+      const team2Points = match.sets.reduce((sum, set) => sum + set.team2, 0);
+      const team1Score: Score = { team: match.team1, score: team1Points };
+      const team2Score: Score = { team: match.team2, score: team2Points };
+      this.completeMatch(
+        court,
+        team1Sets > team2Sets ? [team1Score, team2Score] : [team2Score, team1Score],
+        { type: 'recordSetResult', courtId, scores }
+      );
+      return true;
+    });
+  }
+
+  /**
+   * Record a completed match on a court and rotate teams according to the court's policy
+   * @param scores - [winner, loser] scores
+   * @param command - The call that completed the match, logged once the queue is updated
+   */
+  private completeMatch(court: Court, scores: [Score, Score], command: SessionCommandInput): void {
+    const courtId = court.id;
+    const match = court.currentMatch!;
+    const winner = scores[0].team;
+    const loser = scores[1].team;
+
+    // Record match result
+    const endedAt = new Date(this.now());
+    const result: MatchResult = {
+      match,
+      winner,
+      loser,
+      timestamp: endedAt,
+      courtId: court.id,
+      scores,
+      endedAt,
+      ...(match.startedAt ? { durationMs: endedAt.getTime() - match.startedAt.getTime() } : {}),
+      previousStreak: { consecutiveWins: court.consecutiveWins, courtTeam: court.currentCourtTeam }
+    };
+    this.state.matchHistory.push(result);
+
+    this.logger.log(`Court ${courtId} - Match ${match.matchNumber} result: Team [${winner.player1.name}, ${winner.player2.name}] won`);
+
+    // Update consecutive wins counter
+    if (court.currentCourtTeam && areTeamsEqual(winner, court.currentCourtTeam)) {
+      court.consecutiveWins++;
+    } else {
+      court.consecutiveWins = 1;
+      court.currentCourtTeam = winner;
+    }
+
+    this.logger.log(`Court ${courtId} - Consecutive wins: ${court.consecutiveWins}`);
+
+    // Ask the rotation policy who stays and who goes back to the queue
+    const policy = this.getCourtPolicy(court);
+    const decision = policy.decide({
+      courtId: court.id,
+      winner,
+      loser,
+      consecutiveWins: court.consecutiveWins,
+      queueLength: this.getWaitingTeamCount()
+    });
+    const consecutiveWins = court.consecutiveWins;
+    const queueBefore = [...this.state.queue];
+    const pausedBefore = (this.state.pausedTeams ?? [])
+      .filter(entry => entry.matchesRemaining !== null)
+      .map(entry => ({ ...entry }));
+    this.applyRotation(court, policy, winner, loser, decision);
+    this.countDownPausedTeams();
+
+    // Remember where the next teams came from, so voidMatch() can put the queue back
+    const next = court.currentMatch!;
+    result.previousQueue = {
+      pulled: [next.team1, next.team2]
+        .map(team => ({ team, index: queueBefore.findIndex(t => areTeamsEqual(t, team)) }))
+        .filter(({ index }) => index !== -1),
+      pausedTeams: pausedBefore,
+      nextMatchNumber: next.matchNumber
+    };
+    this.logCommand(command);
+
+    this.logger.log(`Queue size: ${this.state.queue.length}\n`);
+
+    this.emit('resultRecorded', { courtId, result });
+    if (decision.stays === null) {
+      this.emit('courtStreakReached', { courtId, team: winner, consecutiveWins });
+    }
+    this.emit('matchStarted', { courtId, match: court.currentMatch! });
+    this.emitQueueChanged();
+  }
+
+  /**
+   * Get the current state of the system
+   */
+  getCurrentState(): SystemState {
+    return {
+      courts: this.state.courts.map(court => ({
+        id: court.id,
+        currentMatch: court.currentMatch,
+        consecutiveWins: court.consecutiveWins,
+        currentCourtTeam: court.currentCourtTeam,
+        mode: court.mode ?? this.getRotationPolicyConfig(),
+        scoringFormat: court.scoringFormat ?? this.scoringFormat ?? undefined
+      })),
+      queue: [...this.state.queue],
+      matchHistory: [...this.state.matchHistory],
+      queueMode: this.state.queueMode ?? 'teams',
+      ...(this.state.playerQueue ? { playerQueue: [...this.state.playerQueue], pairing: this.state.pairing } : {}),
+      ...(this.state.pausedTeams?.length ? { pausedTeams: this.state.pausedTeams.map(entry => ({ ...entry })) } : {})
+    };
+  }
+
+  /**
+   * Get the current match on a specific court
+   * @param courtId - The ID of the court
+   */
+  getCourtMatch(courtId: number): Match | null {
+    const court = this.state.courts.find(c => c.id === courtId);
+    return court?.currentMatch || null;
+  }
+
+  /**
+   * Update the score for a team in an active match
+   * Every change is recorded as a timestamped point event on the match and can be undone with undo().
+   * With autoFinish enabled, reaching a legal end state records the result (or the set) automatically,
+   * as part of the same undo step.
+   * @param courtId - The ID of the court
+   * @param teamIndex - Which team (1 or 2)
+   * @param delta - The amount to change the score by (positive or negative)
+   * @returns true if the live score (of the current set) has reached a legal end state under the court's scoring format
+   * @throws {CourtNotFoundError} if court doesn't exist
+   * @throws {NoActiveMatchError} if no match is in progress on that court
+   * @throws {InvalidMatchResultError} with reason INVALID_SCORE if delta is not an integer
+   */
+  updateScore(courtId: number, teamIndex: 1 | 2, delta: number): boolean {
+    return this.transaction(() => {
+      this.beginCommand();
+      const court = this.state.courts.find(c => c.id === courtId);
+    
+      if (!court) {
+        throw new CourtNotFoundError(`Court ${courtId} does not exist`);
+      }
+
+      if (!court.currentMatch) {
+        throw new NoActiveMatchError(`No active match on court ${courtId}`);
+      }
+
+      if (typeof delta !== 'number' || !Number.isInteger(delta)) {
+        throw new InvalidMatchResultError(`Invalid score change: ${delta}. Score changes must be integers`, 'INVALID_SCORE');
+      }
+
+      const match = court.currentMatch;
+      const format = this.getCourtScoringFormat(court);
+      const setIndex = match.sets?.length ?? 0;
+      const key = teamIndex === 1 ? 'team1' : 'team2';
+      const previous = match.currentScores?.[key] ?? 0;
+      const applied = Math.max(0, previous + delta) - previous;
+
+      // A point (and the result it completes with autoFinish) is one undo step
+      const next = { team1: 0, team2: 0, ...match.currentScores, [key]: previous + applied };
+      const finished = format !== null && getGameWinner(getSetFormat(format, setIndex), next.team1, next.team2) !== null;
+      if (applied !== 0 || (finished && this.autoFinish)) {
+        // Name the result when the step also undoes it and the rotation that followed
+        const team = formatTeam(teamIndex === 1 ? match.team1 : match.team2);
+        this.saveSnapshot(finished && this.autoFinish
+          ? `Result on court ${courtId} (${next.team1}-${next.team2})`
+          : applied > 0
+            ? `Point for ${team} on court ${courtId}`
+            : `Score correction for ${team} on court ${courtId}`);
+      }
+
+      // Initialize scores if not present
+      if (!match.currentScores) {
+        match.currentScores = { team1: 0, team2: 0 };
+      }
+
+      // Update the appropriate team's score (clamped at 0)
+      const previousTotal = match.currentScores.team1 + match.currentScores.team2;
+      match.currentScores[key] = previous + applied;
+
+      if (applied !== 0) {
+        const event: PointEvent = {
+          type: 'point',
+          team: teamIndex,
+          delta: applied,
+          set: setIndex,
+          timestamp: new Date(this.now()),
+          ...(match.serve ? { serveBefore: match.serve } : {})
+        };
+        const events: MatchEvent[] = [event];
+
+        // A won rally moves the serve (corrections don't)
+        if (applied > 0 && match.serve) {
+          match.serve = rotateServe(match.serve, teamIndex, teamIndex === 1 ? match.team1 : match.team2);
+        }
+
+        const total = match.currentScores.team1 + match.currentScores.team2;
+        if (format && isSideSwitchDue(getSetFormat(format, setIndex), previousTotal, total)) {
+          const sideSwitch: SideSwitchEvent = {
+            type: 'side-switch',
+            set: setIndex,
+            score: { ...match.currentScores },
+            timestamp: event.timestamp
+          };
+          events.push(sideSwitch);
+        }
+
+        match.events = [...(match.events ?? []), ...events];
+      }
+
+      const time = this.now();
+      this.logCommand({ type: 'updateScore', courtId, teamIndex, delta });
+      if (applied !== 0) {
+        this.emit('scoreChanged', { courtId, scores: { ...match.currentScores } });
+      }
+
+      // With best-of-N sets, the live score is the score of the set in progress
+      if (finished && this.autoFinish) {
+        const scores = { team1Score: next.team1, team2Score: next.team2 };
+        // Part of this call: replaying the logged updateScore records the result again
+        this.nestedCommand = true;
+        this.commandTime = time;
+        try {
+          if (getSetsToWin(format) > 1) {
+            this.recordSetResult(courtId, scores);
+          } else {
+            this.recordResult(courtId, scores);
+          }
+        } finally {
+          this.nestedCommand = false;
+        }
+      }
+
+      return finished;
+    });
+  }
+
+  /**
+   * Revert the last point recorded on a court's current set (independent of the undo/redo history)
+   * The undo step of the reverted point stays in the history; undoing it no longer changes the score.
+   * @param courtId - The ID of the court
+   * @returns true if a point was reverted, false if the current set has no points
+   * @throws {CourtNotFoundError} if court doesn't exist
+   * @throws {NoActiveMatchError} if no match is in progress on that court
+   */
+  undoLastPoint(courtId: number): boolean {
+    return this.transaction(() => {
+      this.beginCommand();
+      const court = this.state.courts.find(c => c.id === courtId);
+
+      if (!court) {
+        throw new CourtNotFoundError(`Court ${courtId} does not exist`);
+      }
+
+      if (!court.currentMatch) {
+        throw new NoActiveMatchError(`No active match on court ${courtId}`);
+      }
+
+      const match = court.currentMatch;
+      const events = match.events ?? [];
+      const currentSet = match.sets?.length ?? 0;
+      const index = events.findLastIndex(event => event.type === 'point' && event.set === currentSet);
+
+      if (index === -1 || !match.currentScores) {
+        return false;
+      }
+
+      const point = events[index] as PointEvent;
+      const key = point.team === 1 ? 'team1' : 'team2';
+      match.currentScores[key] = Math.max(0, match.currentScores[key] - point.delta);
+      if (point.serveBefore) {
+        match.serve = point.serveBefore;
+      }
+
+      // Side switches triggered by the point are reverted with it
+      match.events = events.slice(0, index);
+      this.logCommand({ type: 'undoLastPoint', courtId });
+      this.emit('scoreChanged', { courtId, scores: { ...match.currentScores } });
+      return true;
+    });
+  }
+
+  /**
+   * Set who serves the next rally on a court and start tracking serves
+   * @param courtId - The ID of the court
+   * @param teamIndex - Serving team (1 or 2)
+   * @param player - Serving player (defaults to the team's player1)
+   * @throws {CourtNotFoundError} if court doesn't exist
+   * @throws {NoActiveMatchError} if no match is in progress on that court
+   * @throws {QueueManagementError} if the player is not part of the serving team
+   */
+  setServer(courtId: number, teamIndex: 1 | 2, player?: Player): void {
+    this.transaction(() => {
+      this.beginCommand();
+      const court = this.state.courts.find(c => c.id === courtId);
+
+      if (!court) {
+        throw new CourtNotFoundError(`Court ${courtId} does not exist`);
+      }
+
+      if (!court.currentMatch) {
+        throw new NoActiveMatchError(`No active match on court ${courtId}`);
+      }
+
+      const match = court.currentMatch;
+      const team = teamIndex === 1 ? match.team1 : match.team2;
+      const server = player ?? team.player1;
+
+      if (server.id !== team.player1.id && server.id !== team.player2.id) {
+        throw new QueueManagementError(`Player ${server.name} is not part of team ${teamIndex} on court ${courtId}`);
+      }
+
+      this.saveSnapshot(`Server on court ${courtId}: ${server.name}`);
+      const key = teamIndex === 1 ? 'team1' : 'team2';
+      const lastServer = match.serve?.lastServer ?? { team1: null, team2: null };
+      match.serve = {
+        team: teamIndex,
+        player: server,
+        lastServer: { ...lastServer, [key]: server }
+      };
+      this.logCommand({ type: 'setServer', courtId, teamIndex, player });
+    });
+  }
+
+  /**
+   * Get who serves the next rally on a court, and who would serve after a side-out
+   * @param courtId - The ID of the court
+   * @returns The serve information, or null if serves are not tracked on the current match
+   */
+  getServe(courtId: number): ServeInfo | null {
+    const match = this.getCourtMatch(courtId);
+    if (!match?.serve) {
+      return null;
+    }
+
+    const receiving: 1 | 2 = match.serve.team === 1 ? 2 : 1;
+    const sideOut = rotateServe(match.serve, receiving, receiving === 1 ? match.team1 : match.team2);
+    return {
+      team: match.serve.team,
+      player: match.serve.player,
+      sideOut: { team: sideOut.team, player: sideOut.player }
+    };
+  }
+
+  /**
+   * Get all courts
+   */
+  getCourts(): Court[] {
+    return this.state.courts.map(court => ({ ...court }));
+  }
+
+  /**
+   * Get match history
+   */
+  getMatchHistory(): MatchResult[] {
+    return [...this.state.matchHistory];
+  }
+
+  /**
+   * Get statistics for all teams that have played in the session
+   * @returns Array of team statistics sorted by wins (descending) then total points (descending)
+   */
+  getTeamStatistics(): TeamStatistics[] {
+    const statsMap = new Map<string, TeamStatistics>();
+
+    // Process each match result
+    for (const result of this.getCountedResults()) {
+      const winnerKey = this.getTeamKey(result.winner);
+      const loserKey = this.getTeamKey(result.loser);
+
+      // Initialize winner stats if not exists
+      if (!statsMap.has(winnerKey)) {
+        statsMap.set(winnerKey, {
+          team: result.winner,
           wins: 0,
           losses: 0,
           totalPoints: 0,
-          pointsAgainst: 0
+          pointsAgainst: 0,
+          setsWon: 0,
+          setsLost: 0,
+          timeOnCourtMs: 0
         });
       }
 
-      // Update winner stats
-      const winnerStats = statsMap.get(winnerKey)!;
-      winnerStats.wins++;
+      // Initialize loser stats if not exists
+      if (!statsMap.has(loserKey)) {
+        statsMap.set(loserKey, {
+          team: result.loser,
+          wins: 0,
+          losses: 0,
+          totalPoints: 0,
+          pointsAgainst: 0,
+          setsWon: 0,
+          setsLost: 0,
+          timeOnCourtMs: 0
+        });
+      }
+
+      // Update winner stats
+      const winnerStats = statsMap.get(winnerKey)!;
+      winnerStats.wins++;
+      winnerStats.timeOnCourtMs += result.durationMs ?? 0;
+
+      // Update loser stats
+      const loserStats = statsMap.get(loserKey)!;
+      loserStats.losses++;
+      loserStats.timeOnCourtMs += result.durationMs ?? 0;
+
+      // Update sets: a match played as a single game counts as one set
+      if (result.match.sets && result.match.sets.length > 0) {
+        const [team1Sets, team2Sets] = countSetsWon(result.match.sets);
+        const winnerIsTeam1 = areTeamsEqual(result.winner, result.match.team1);
+        winnerStats.setsWon += winnerIsTeam1 ? team1Sets : team2Sets;
+        winnerStats.setsLost += winnerIsTeam1 ? team2Sets : team1Sets;
+        loserStats.setsWon += winnerIsTeam1 ? team2Sets : team1Sets;
+        loserStats.setsLost += winnerIsTeam1 ? team1Sets : team2Sets;
+      } else {
+        winnerStats.setsWon++;
+        loserStats.setsLost++;
+      }
+
+      // Update points if scores are available
+      if (result.scores) {
+        const winnerScore = result.scores.find(s => areTeamsEqual(s.team, result.winner));
+        const loserScore = result.scores.find(s => areTeamsEqual(s.team, result.loser));
+
+        if (winnerScore && loserScore) {
+          winnerStats.totalPoints += winnerScore.score;
+          winnerStats.pointsAgainst += loserScore.score;
+          loserStats.totalPoints += loserScore.score;
+          loserStats.pointsAgainst += winnerScore.score;
+        }
+      }
+    }
+
+    // Convert to array and sort by wins (desc), then total points (desc)
+    const stats = Array.from(statsMap.values());
+    stats.sort((a, b) => {
+      if (b.wins !== a.wins) {
+        return b.wins - a.wins;
+      }
+      return b.totalPoints - a.totalPoints;
+    });
+
+    return stats;
+  }
+
+  /**
+   * Get statistics for every player that has played in the session, across all of their partners
+   * @returns Array of player statistics sorted by wins (descending) then points scored (descending)
+   */
+  getPlayerStatistics(): PlayerStatistics[] {
+    const statsMap = new Map<number, PlayerStatistics>();
+
+    const getStats = (player: Player): PlayerStatistics => {
+      let stats = statsMap.get(player.id);
+      if (!stats) {
+        stats = {
+          player,
+          gamesPlayed: 0,
+          wins: 0,
+          losses: 0,
+          pointsFor: 0,
+          pointsAgainst: 0,
+          winRate: 0,
+          partners: []
+        };
+        statsMap.set(player.id, stats);
+      }
+      return stats;
+    };
+
+    const getPartnerStats = (stats: PlayerStatistics, partner: Player): PartnerStatistics => {
+      let partnerStats = stats.partners.find(p => p.partner.id === partner.id);
+      if (!partnerStats) {
+        partnerStats = { partner, gamesPlayed: 0, wins: 0, losses: 0, pointsFor: 0, pointsAgainst: 0 };
+        stats.partners.push(partnerStats);
+      }
+      return partnerStats;
+    };
+
+    for (const result of this.getCountedResults()) {
+      const winnerScore = result.scores?.find(s => areTeamsEqual(s.team, result.winner))?.score ?? 0;
+      const loserScore = result.scores?.find(s => areTeamsEqual(s.team, result.loser))?.score ?? 0;
+
+      const sides = [
+        { team: result.winner, won: true, pointsFor: winnerScore, pointsAgainst: loserScore },
+        { team: result.loser, won: false, pointsFor: loserScore, pointsAgainst: winnerScore }
+      ];
+
+      for (const side of sides) {
+        const pairs: [Player, Player][] = [
+          [side.team.player1, side.team.player2],
+          [side.team.player2, side.team.player1]
+        ];
+
+        for (const [player, partner] of pairs) {
+          const stats = getStats(player);
+          const partnerStats = getPartnerStats(stats, partner);
+
+          for (const record of [stats, partnerStats]) {
+            record.gamesPlayed++;
+            if (side.won) {
+              record.wins++;
+            } else {
+              record.losses++;
+            }
+            record.pointsFor += side.pointsFor;
+            record.pointsAgainst += side.pointsAgainst;
+          }
+        }
+      }
+    }
+
+    const stats = Array.from(statsMap.values());
+    for (const playerStats of stats) {
+      playerStats.winRate = playerStats.wins / playerStats.gamesPlayed;
+      playerStats.partners.sort((a, b) => b.gamesPlayed - a.gamesPlayed);
+    }
+
+    // Sort by wins (desc), then points scored (desc)
+    stats.sort((a, b) => {
+      if (b.wins !== a.wins) {
+        return b.wins - a.wins;
+      }
+      return b.pointsFor - a.pointsFor;
+    });
+
+    return stats;
+  }
+
+  /**
+   * Forecast when each team in the queue will play
+   * Simulates the next matches assuming the team on court keeps winning (team1 when no team is
+   * on a streak), applying each court's rotation policy, the insertion policy and paused teams.
+   * Courts finish their current match one average match duration after it started, then one duration apart.
+   * @param options - `averageMatchMinutes` overrides the duration measured from the match history
+   * @returns One entry per team in the queue, in queue order
+   * @throws {QueueManagementError} if averageMatchMinutes is not a positive number
+   */
+  getQueueForecast(options: QueueForecastOptions = {}): QueueForecastEntry[] {
+    const { averageMatchMinutes } = options;
+    if (averageMatchMinutes !== undefined && !(Number.isFinite(averageMatchMinutes) && averageMatchMinutes > 0)) {
+      throw new QueueManagementError(`Invalid averageMatchMinutes: ${averageMatchMinutes}. Duration must be a positive number`);
+    }
+
+    const averageMs = averageMatchMinutes !== undefined ? averageMatchMinutes * 60 * 1000 : this.getAverageMatchDuration();
+    const now = this.clock();
+    const queue = [...this.state.queue];
+    const paused = new Map((this.state.pausedTeams ?? []).map(entry => [this.getTeamKey(entry.team), entry.matchesRemaining]));
+    const forecast = new Map<string, QueueForecastEntry>(queue.map((team, position) => [
+      this.getTeamKey(team),
+      { team, position, matchesAhead: null, courtId: null, estimatedStart: null }
+    ]));
+
+    const courts = this.state.courts
+      .filter(court => court.currentMatch !== null)
+      .map(court => {
+        const lastResult = this.getCountedResults().filter(result => result.courtId === court.id).at(-1);
+        const startedAt = court.currentMatch!.startedAt?.getTime() ?? lastResult?.timestamp.getTime() ?? now;
+        const finishesAt = averageMs === null ? null : Math.max(now, startedAt + averageMs);
+        return {
+          court,
+          team1: court.currentMatch!.team1,
+          team2: court.currentMatch!.team2,
+          consecutiveWins: court.consecutiveWins,
+          currentCourtTeam: court.currentCourtTeam,
+          finishesAt,
+          matchesPlayed: 0
+        };
+      });
+
+    const context = {
+      gamesPlayed: (team: Team) => this.countGamesPlayed(team),
+      waitTime: (team: Team) => this.measureWaitTime(team, now)
+    };
+    const isWaiting = (team: Team) => !paused.has(this.getTeamKey(team));
+    const isUnplaced = () => Array.from(forecast.values()).some(entry => entry.matchesAhead === null && isWaiting(entry.team));
+    const maxMatches = (queue.length + 2 * courts.length) * 4;
+    let matchesPlayed = 0;
+
+    while (courts.length > 0 && matchesPlayed < maxMatches && isUnplaced()) {
+      // Next court to finish (round-robin when durations are unknown)
+      const sim = courts.reduce((next, c) => {
+        const [a, b] = next.finishesAt !== null && c.finishesAt !== null
+          ? [c.finishesAt, next.finishesAt]
+          : [c.matchesPlayed, next.matchesPlayed];
+        return a < b ? c : next;
+      });
+
+      const incumbent = sim.currentCourtTeam && [sim.team1, sim.team2].some(t => areTeamsEqual(t, sim.currentCourtTeam!));
+      const winner = incumbent && areTeamsEqual(sim.team2, sim.currentCourtTeam!) ? sim.team2 : sim.team1;
+      const loser = winner === sim.team1 ? sim.team2 : sim.team1;
+
+      if (sim.currentCourtTeam && areTeamsEqual(winner, sim.currentCourtTeam)) {
+        sim.consecutiveWins++;
+      } else {
+        sim.consecutiveWins = 1;
+        sim.currentCourtTeam = winner;
+      }
+
+      const decision = this.getCourtPolicy(sim.court).decide({
+        courtId: sim.court.id,
+        winner,
+        loser,
+        consecutiveWins: sim.consecutiveWins,
+        queueLength: queue.filter(isWaiting).length
+      });
+      matchesPlayed++;
+      sim.matchesPlayed++;
+
+      queue.unshift(...decision.toQueueFront);
+      for (const team of decision.toQueueBack) {
+        queue.splice(getInsertionIndex(queue, team, this.insertionPolicy, context), 0, team);
+      }
+      if (!decision.stays) {
+        sim.consecutiveWins = 0;
+        sim.currentCourtTeam = null;
+      }
+
+      const taken = queue.filter(isWaiting).slice(0, decision.stays ? 1 : 2);
+      if (taken.length < (decision.stays ? 1 : 2)) {
+        break;
+      }
+      for (const team of taken) {
+        queue.splice(queue.indexOf(team), 1);
+        const entry = forecast.get(this.getTeamKey(team));
+        if (entry && entry.matchesAhead === null) {
+          entry.matchesAhead = matchesPlayed;
+          entry.courtId = sim.court.id;
+          entry.estimatedStart = sim.finishesAt !== null ? new Date(sim.finishesAt) : null;
+        }
+      }
+
+      [sim.team1, sim.team2] = decision.stays ? [decision.stays, taken[0]] : [taken[0], taken[1]];
+
+      // Timed pauses count down once the next teams have been pulled
+      for (const [key, remaining] of paused) {
+        if (remaining !== null) {
+          if (remaining <= 1) {
+            paused.delete(key);
+          } else {
+            paused.set(key, remaining - 1);
+          }
+        }
+      }
+
+      if (sim.finishesAt !== null) {
+        sim.finishesAt += averageMs!;
+      }
+    }
+
+    return Array.from(forecast.values());
+  }
+
+  /**
+   * Get match duration statistics for each court, in court order
+   * Only recorded matches count; the match in progress is not included.
+   */
+  getCourtStatistics(): CourtStatistics[] {
+    const courtIds = new Set(this.state.courts.map(court => court.id));
+    for (const result of this.getCountedResults()) {
+      if (result.courtId !== undefined) {
+        courtIds.add(result.courtId);
+      }
+    }
+
+    return Array.from(courtIds)
+      .sort((a, b) => a - b)
+      .map(courtId => {
+        const results = this.getCountedResults().filter(result => result.courtId === courtId);
+        const durations = results.flatMap(result => (result.durationMs !== undefined ? [result.durationMs] : []));
+        const totalDurationMs = durations.reduce((sum, duration) => sum + duration, 0);
+        return {
+          courtId,
+          matchesPlayed: results.length,
+          totalDurationMs,
+          averageDurationMs: durations.length > 0 ? totalDurationMs / durations.length : null
+        };
+      });
+  }
+
+  /**
+   * Get the winner of the session based on:
+   * 1. Most wins
+   * 2. If tied on wins, most total points
+   * @returns The winning team and their statistics, or null if no matches have been played
+   */
+  getSessionWinner(): TeamStatistics | null {
+    const stats = this.getTeamStatistics();
+    return stats.length > 0 ? stats[0] : null;
+  }
+
+  /**
+   * Get the rating settings of the session
+   */
+  getRatingOptions(): Required<RatingOptions> {
+    return { ...this.ratingOptions };
+  }
+
+  /**
+   * Get the current rating of a player
+   * Ratings are recomputed from the match history, so they follow undo/redo and edited results.
+   * @returns The player's rating (their initial rating if they have not played yet)
+   */
+  getPlayerRating(player: Player): number {
+    const entry = computeRatings(this.getCountedResults(), this.ratingOptions).get(player.id);
+    return entry ? entry.rating : player.rating ?? this.ratingOptions.initialRating;
+  }
+
+  /**
+   * Get the current rating of a team (the average of its players' ratings)
+   */
+  getTeamRating(team: Team): number {
+    const ratings = computeRatings(this.getCountedResults(), this.ratingOptions);
+    const ratingOf = (player: Player) => ratings.get(player.id)?.rating ?? player.rating ?? this.ratingOptions.initialRating;
+    return (ratingOf(team.player1) + ratingOf(team.player2)) / 2;
+  }
+
+  /**
+   * Get the rating leaderboard of the session (players who have played at least one match)
+   * @returns Players sorted by rating (desc), then games played (desc)
+   */
+  getLeaderboard(): PlayerRating[] {
+    const leaderboard = Array.from(computeRatings(this.getCountedResults(), this.ratingOptions).values());
+
+    leaderboard.sort((a, b) => {
+      if (b.rating !== a.rating) {
+        return b.rating - a.rating;
+      }
+      return b.gamesPlayed - a.gamesPlayed;
+    });
+
+    return leaderboard;
+  }
+
+  /**
+   * Get a player's rating after each of their matches in the session
+   * @param playerId - The ID of the player
+   * @returns Rating history in play order (empty if the player has not played)
+   */
+  getRatingHistory(playerId: number): RatingHistoryEntry[] {
+    return computeRatings(this.getCountedResults(), this.ratingOptions).get(playerId)?.history ?? [];
+  }
+
+  /**
+   * Get a beautified string representation of the current queue
+   * @returns A formatted string showing each team in the queue, one per line
+   */
+  beautifyQueue(): string {
+    if (this.state.queueMode === 'players') {
+      const players = this.state.playerQueue ?? [];
+      return players.length === 0 ? 'Queue is empty' : players.map(player => player.name).join('\n');
+    }
+
+    if (this.state.queue.length === 0) {
+      return 'Queue is empty';
+    }
+
+    return this.state.queue
+      .map(team => {
+        const paused = this.state.pausedTeams?.find(entry => areTeamsEqual(entry.team, team));
+        const status = !paused
+          ? ''
+          : paused.matchesRemaining === null
+            ? ' (paused)'
+            : ` (paused, ${paused.matchesRemaining} match${paused.matchesRemaining === 1 ? '' : 'es'} left)`;
+        return `${team.player1.name} e ${team.player2.name}${status}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Reorder a team within the queue by moving it from one position to another
+   * @param fromIndex - The current index of the team to move (0-based)
+   * @param toIndex - The target index to move the team to (0-based)
+   * @throws {Error} if the system has not been initialized
+   * @throws {InvalidQueueIndexError} if either index is out of bounds
+   */
+  reorderTeamInQueue(fromIndex: number, toIndex: number): void {
+    this.transaction(() => {
+      this.beginCommand();
+      // Check if system is initialized (at least one court has an active match)
+      const hasActiveMatch = this.state.courts.some(court => court.currentMatch !== null);
+      if (!hasActiveMatch) {
+        throw new Error('Cannot reorder queue: System has not been initialized. Call initialize() first.');
+      }
+
+      const queueLength = this.state.queue.length;
+
+      // Validate fromIndex
+      if (fromIndex < 0 || fromIndex >= queueLength) {
+        throw new InvalidQueueIndexError(fromIndex, queueLength);
+      }
+
+      // Validate toIndex
+      if (toIndex < 0 || toIndex >= queueLength) {
+        throw new InvalidQueueIndexError(toIndex, queueLength);
+      }
+
+      // No-op if indices are the same
+      if (fromIndex === toIndex) {
+        return;
+      }
+
+      this.saveSnapshot(`Moved ${formatTeam(this.state.queue[fromIndex])} in the queue`);
+
+      // Remove team from current position and insert at new position
+      const [team] = this.state.queue.splice(fromIndex, 1);
+      this.state.queue.splice(toIndex, 0, team);
+      this.logCommand({ type: 'reorderTeamInQueue', fromIndex, toIndex });
+
+      this.logger.log(`Moved team [${team.player1.name}, ${team.player2.name}] from position ${fromIndex} to ${toIndex}`);
+      this.emitQueueChanged();
+    });
+  }
+
+  /**
+   * Resolve explicit team1/team2 scores into [winner, loser] scores
+   * @throws {InvalidMatchResultError} if a score is invalid or the result is tied without a valid tie-break winner
+   */
+  private resolveScoreInput(match: Match, input: MatchScoreInput): [Score, Score] {
+    validateScoreValue(input.team1Score, 'team1Score');
+    validateScoreValue(input.team2Score, 'team2Score');
+
+    const { tieBreakWinner } = input;
+    if (tieBreakWinner !== undefined && tieBreakWinner !== 1 && tieBreakWinner !== 2) {
+      throw new InvalidMatchResultError('tieBreakWinner must be 1 or 2', 'INVALID_TIE_BREAK');
+    }
+
+    let team1Wins: boolean;
+    if (input.team1Score === input.team2Score) {
+      if (tieBreakWinner === undefined) {
+        throw new InvalidMatchResultError(`Scores are tied ${input.team1Score}-${input.team2Score}; provide a tieBreakWinner`, 'TIED_SCORE');
+      }
+      team1Wins = tieBreakWinner === 1;
+    } else {
+      team1Wins = input.team1Score > input.team2Score;
+      if (tieBreakWinner !== undefined && (tieBreakWinner === 1) !== team1Wins) {
+        throw new InvalidMatchResultError('tieBreakWinner contradicts the scores', 'INVALID_TIE_BREAK');
+      }
+    }
+
+    const team1Score: Score = { team: match.team1, score: input.team1Score };
+    const team2Score: Score = { team: match.team2, score: input.team2Score };
+    return team1Wins ? [team1Score, team2Score] : [team2Score, team1Score];
+  }
+
+  /**
+   * Resolve a legacy score map ({ score: team }) into [winner, loser] scores
+   * @throws {InvalidMatchResultError} if the map doesn't hold both teams of the match with valid scores
+   */
+  private resolveScoreMap(match: Match, scoreMap: Record<number, Team>): [Score, Score] {
+    // Extract scores and teams from scoreMap
+    const scores = Object.entries(scoreMap).map(([score, team]) => ({
+      score: Number(score),
+      team
+    }));
+
+    // Validate that we have exactly 2 teams (tied scores collapse into a single key)
+    if (scores.length !== 2) {
+      throw new InvalidMatchResultError('Score map must contain exactly 2 teams', 'TEAM_COUNT');
+    }
 
-      // Update loser stats
-      const loserStats = statsMap.get(loserKey)!;
-      loserStats.losses++;
+    // Validate that both teams of the current match are present
+    const validTeams = !areTeamsEqual(scores[0].team, scores[1].team) && scores.every(s =>
+      areTeamsEqual(s.team, match.team1) || areTeamsEqual(s.team, match.team2)
+    );
 
-      // Update points if scores are available
-      if (result.scores) {
-        const winnerScore = result.scores.find(s => areTeamsEqual(s.team, result.winner));
-        const loserScore = result.scores.find(s => areTeamsEqual(s.team, result.loser));
+    if (!validTeams) {
+      throw new InvalidMatchResultError('Teams in score map must be part of the current match', 'TEAM_MISMATCH');
+    }
 
-        if (winnerScore && loserScore) {
-          winnerStats.totalPoints += winnerScore.score;
-          winnerStats.pointsAgainst += loserScore.score;
-          loserStats.totalPoints += loserScore.score;
-          loserStats.pointsAgainst += winnerScore.score;
-        }
+    for (const s of scores) {
+      validateScoreValue(s.score, 'score');
+    }
+
+    // Determine winner and loser based on scores
+    scores.sort((a, b) => b.score - a.score);
+    return [scores[0], scores[1]];
+  }
+
+  /**
+   * Get the scoring format in effect on a court (its own format, or the session format)
+   */
+  private getCourtScoringFormat(court: Court | undefined): ScoringFormat | null {
+    return court?.scoringFormat ?? this.scoringFormat;
+  }
+
+  /**
+   * Check [winner, loser] scores against the scoring format in effect on a court
+   * @throws {InvalidMatchResultError} with reason IMPOSSIBLE_SCORE if the result cannot happen under the format
+   */
+  private checkScoresAgainstFormat(court: Court | undefined, scores: [Score, Score]): void {
+    const format = this.getCourtScoringFormat(court);
+    if (!format) {
+      return;
+    }
+
+    const problem = checkFinalScore(format, scores[0].score, scores[1].score);
+    if (problem) {
+      throw new InvalidMatchResultError(problem, 'IMPOSSIBLE_SCORE');
+    }
+  }
+
+  /**
+   * Get the rotation policy in effect on a court (its game mode, or the manager's policy)
+   */
+  private getCourtPolicy(court: Court): RotationPolicy {
+    return court.mode ? createRotationPolicy(court.mode) : this.rotationPolicy;
+  }
+
+  /**
+   * Apply a rotation decision: return teams to the queue and start the next match on the court
+   * @throws {QueueManagementError} if the decision does not account for both teams
+   * @throws {InsufficientTeamsError} if the queue doesn't have enough teams to refill the court
+   */
+  private applyRotation(court: Court, policy: RotationPolicy, winner: Team, loser: Team, decision: RotationDecision): void {
+    const { stays, toQueueFront, toQueueBack } = decision;
+    const returning = [...toQueueFront, ...toQueueBack];
+
+    if (stays && !areTeamsEqual(stays, winner)) {
+      throw new QueueManagementError(`Rotation policy "${policy.type}" can only keep the winner on court`);
+    }
+
+    const leaving = stays ? [loser] : [winner, loser];
+    const accountedFor = returning.length === leaving.length &&
+      leaving.every(team => returning.some(t => areTeamsEqual(t, team)));
+    if (!accountedFor) {
+      throw new QueueManagementError(`Rotation policy "${policy.type}" must return every team leaving the court to the queue`);
+    }
+
+    this.returnToQueue(toQueueFront, toQueueBack);
+
+    const [nextTeam1, nextTeam2] = stays
+      ? [stays, ...this.takeTeamsFromQueue(1, court)]
+      : this.takeTeamsFromQueue(2, court);
+
+    if (stays) {
+      this.logger.log(`Court ${court.id} - Winner stays on court.`);
+    } else {
+      this.logger.log(`Court ${court.id} - Both teams return to queue.`);
+      court.consecutiveWins = 0;
+      court.currentCourtTeam = null;
+    }
+
+    this.matchCounter++;
+    court.currentMatch = {
+      team1: nextTeam1,
+      team2: nextTeam2,
+      matchNumber: this.matchCounter,
+      courtId: court.id,
+      startedAt: new Date(this.now())
+    };
+
+    this.logger.log(`Court ${court.id} - Next match: Team [${nextTeam1.player1.name}, ${nextTeam1.player2.name}] vs Team [${nextTeam2.player1.name}, ${nextTeam2.player2.name}]`);
+  }
+
+  /**
+   * Count a recorded match against timed pauses and resume the teams whose break is over
+   */
+  private countDownPausedTeams(): void {
+    const pausedTeams = this.state.pausedTeams ?? [];
+    for (const entry of pausedTeams) {
+      if (entry.matchesRemaining !== null) {
+        entry.matchesRemaining--;
       }
     }
 
-    // Convert to array and sort by wins (desc), then total points (desc)
-    const stats = Array.from(statsMap.values());
-    stats.sort((a, b) => {
-      if (b.wins !== a.wins) {
-        return b.wins - a.wins;
+    for (const entry of pausedTeams.filter(e => e.matchesRemaining !== null && e.matchesRemaining <= 0)) {
+      this.logger.log(`Team [${entry.team.player1.name}, ${entry.team.player2.name}] resumed`);
+    }
+    this.state.pausedTeams = pausedTeams.filter(e => e.matchesRemaining === null || e.matchesRemaining > 0);
+  }
+
+  /**
+   * Call the listeners of an event
+   * During a state-changing call, listeners are called once the call has succeeded (never for a rolled-back call).
+   * A listener that throws is logged and skipped: the change is already made and the other listeners still run.
+   */
+  private emit<K extends QueueManagerEventName>(event: K, payload: QueueManagerEvents[K]): void {
+    const call = () => {
+      for (const listener of [...(this.listeners[event] ?? [])]) {
+        try {
+          listener(payload);
+        } catch (error) {
+          this.logger.log(`Listener for ${event} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
       }
-      return b.totalPoints - a.totalPoints;
+    };
+    if (this.transactionDepth > 0) {
+      this.pendingEvents.push(call);
+    } else {
+      call();
+    }
+  }
+
+  /**
+   * Emit queueChanged with a copy of the current queue
+   */
+  private emitQueueChanged(): void {
+    this.emit('queueChanged', {
+      queue: [...this.state.queue],
+      ...(this.state.playerQueue ? { playerQueue: [...this.state.playerQueue] } : {})
     });
+  }
 
-    return stats;
+  /**
+   * Number of teams that can be pulled from the queue (pairs of waiting players in individual-player mode)
+   */
+  private getWaitingTeamCount(): number {
+    if (this.state.queueMode === 'players') {
+      return Math.floor((this.state.playerQueue?.length ?? 0) / 2);
+    }
+    return this.state.queue.filter(team => !this.isTeamPaused(team)).length;
   }
 
   /**
-   * Get the winner of the session based on:
-   * 1. Most wins
-   * 2. If tied on wins, most total points
-   * @returns The winning team and their statistics, or null if no matches have been played
+   * Return teams leaving a court to the queue (split into players in individual-player mode)
    */
-  getSessionWinner(): TeamStatistics | null {
-    const stats = this.getTeamStatistics();
-    return stats.length > 0 ? stats[0] : null;
+  private returnToQueue(toFront: Team[], toBack: Team[]): void {
+    if (this.state.queueMode === 'players') {
+      const playersOf = (teams: Team[]) => teams.flatMap(team => [team.player1, team.player2]);
+      this.state.playerQueue!.unshift(...playersOf(toFront));
+      this.state.playerQueue!.push(...playersOf(toBack));
+      return;
+    }
+
+    this.state.queue.unshift(...toFront);
+    this.markQueued(toFront);
+    this.insertIntoQueue(toBack, this.insertionPolicy);
   }
 
   /**
-   * Get a beautified string representation of the current queue
-   * @returns A formatted string showing each team in the queue, one per line
+   * Insert teams one by one at the position chosen by an insertion policy
    */
-  beautifyQueue(): string {
-    if (this.state.queue.length === 0) {
-      return 'Queue is empty';
+  private insertIntoQueue(teams: Team[], policy: InsertionPolicy): void {
+    const context = {
+      gamesPlayed: (team: Team) => this.countGamesPlayed(team),
+      waitTime: (team: Team) => this.measureWaitTime(team, this.now())
+    };
+
+    for (const team of teams) {
+      const index = getInsertionIndex(this.state.queue, team, policy, context);
+      this.state.queue.splice(index, 0, team);
+      this.markQueued([team]);
     }
+  }
 
-    return this.state.queue
-      .map(team => `${team.player1.name} e ${team.player2.name}`)
-      .join('\n');
+  /**
+   * Average match duration, from recorded durations or, for results without one,
+   * the time between two consecutive results on the same court
+   * @returns Duration in milliseconds, or null if no duration can be measured yet
+   */
+  private getAverageMatchDuration(): number | null {
+    const durations = this.getCountedResults().flatMap(result => (result.durationMs !== undefined ? [result.durationMs] : []));
+    if (durations.length > 0) {
+      return durations.reduce((sum, d) => sum + d, 0) / durations.length;
+    }
+
+    for (const court of this.state.courts) {
+      const times = this.getCountedResults()
+        .filter(result => result.courtId === court.id)
+        .map(result => result.timestamp.getTime());
+      for (let i = 1; i < times.length; i++) {
+        durations.push(times[i] - times[i - 1]);
+      }
+    }
+
+    return durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : null;
   }
 
   /**
-   * Reorder a team within the queue by moving it from one position to another
-   * @param fromIndex - The current index of the team to move (0-based)
-   * @param toIndex - The target index to move the team to (0-based)
-   * @throws {Error} if the system has not been initialized
-   * @throws {InvalidQueueIndexError} if either index is out of bounds
+   * Match results that count towards statistics, ratings and fairness (voided results excluded)
    */
-  reorderTeamInQueue(fromIndex: number, toIndex: number): void {
-    // Check if system is initialized (at least one court has an active match)
-    const hasActiveMatch = this.state.courts.some(court => court.currentMatch !== null);
-    if (hasActiveMatch) {
-      this.saveSnapshot();
+  private getCountedResults(): MatchResult[] {
+    return this.state.matchHistory.filter(result => !result.voided);
+  }
+
+  /**
+   * Count the matches a team has played in this session
+   */
+  private countGamesPlayed(team: Team): number {
+    return this.getCountedResults().filter(result =>
+      areTeamsEqual(result.winner, team) || areTeamsEqual(result.loser, team)
+    ).length;
+  }
+
+  /**
+   * Total time a team has waited in the queue up to `now` (milliseconds)
+   */
+  private measureWaitTime(team: Team, now: number): number {
+    const entry = this.state.waitTimes?.[this.getTeamKey(team)];
+    if (!entry) {
+      return 0;
+    }
+    return entry.waitedMs + (entry.queuedAt !== null ? now - entry.queuedAt : 0);
+  }
+
+  /**
+   * Start the wait clock of teams joining the queue
+   */
+  private markQueued(teams: Team[]): void {
+    const waitTimes = this.state.waitTimes ?? (this.state.waitTimes = {});
+    const now = this.now();
+    for (const team of teams) {
+      const key = this.getTeamKey(team);
+      waitTimes[key] = { waitedMs: waitTimes[key]?.waitedMs ?? 0, queuedAt: now };
+    }
+  }
+
+  /**
+   * Stop the wait clock of teams leaving the queue and add the time to their total
+   */
+  private markDequeued(teams: Team[]): void {
+    const now = this.now();
+    for (const team of teams) {
+      const entry = this.state.waitTimes?.[this.getTeamKey(team)];
+      if (entry && entry.queuedAt !== null) {
+        entry.waitedMs += now - entry.queuedAt;
+        entry.queuedAt = null;
+      }
+    }
+  }
+
+  /**
+   * Current time in epoch milliseconds
+   * Fixed for the duration of a state-changing call, so every change it makes carries the time it was logged with.
+   */
+  private now(): number {
+    return this.commandTime ?? this.clock();
+  }
+
+  /**
+   * Start a state-changing call (calls made internally by another call are not logged separately)
+   * Calls made in a batch all run at the time the batch started.
+   */
+  private beginCommand(): void {
+    if (!this.nestedCommand) {
+      this.commandTime = this.currentBatch?.time ?? this.clock();
+    }
+  }
+
+  /**
+   * Append a successful state-changing call to the session log
+   * A nested call is not logged; calls made afterwards (e.g. by event listeners) are logged again.
+   */
+  private logCommand(command: SessionCommandInput): void {
+    if (this.nestedCommand) {
+      this.nestedCommand = false;
+      this.commandTime = null;
+      return;
     }
-    if (!hasActiveMatch) {
-      throw new Error('Cannot reorder queue: System has not been initialized. Call initialize() first.');
+    if (this.currentBatch) {
+      this.currentBatch.commands.push({ at: this.currentBatch.time, ...JSON.parse(JSON.stringify(command)) });
+      this.commandTime = null;
+      return;
     }
+    this.commandLog.push({ at: this.commandTime ?? this.clock(), ...JSON.parse(JSON.stringify(command)) });
+    this.commandTime = null;
+    this.scheduleAutosave();
+  }
 
-    const queueLength = this.state.queue.length;
+  /**
+   * Run a state-changing call so that it either succeeds completely or leaves no trace
+   * If the call throws, the state, undo/redo stacks, settings and session log are restored to what they
+   * were before it and its events are dropped. Events are emitted once the outermost call has succeeded.
+   * @returns The value returned by the call
+   */
+  private transaction<T>(run: () => T): T {
+    const rollback = this.createCheckpoint();
+    let result: T;
+    this.transactionDepth++;
+    try {
+      result = run();
+    } catch (error) {
+      rollback();
+      throw error;
+    } finally {
+      this.transactionDepth--;
+    }
 
-    // Validate fromIndex
-    if (fromIndex < 0 || fromIndex >= queueLength) {
-      throw new InvalidQueueIndexError(fromIndex, queueLength);
+    // Committed: listeners run outside the transaction, so they cannot roll it back
+    if (this.transactionDepth === 0) {
+      const events = this.pendingEvents;
+      this.pendingEvents = [];
+      events.forEach(call => call());
     }
+    return result;
+  }
 
-    // Validate toIndex
-    if (toIndex < 0 || toIndex >= queueLength) {
-      throw new InvalidQueueIndexError(toIndex, queueLength);
+  /**
+   * Record everything a state-changing call may modify
+   * @returns A function that puts it all back
+   */
+  private createCheckpoint(): () => void {
+    const state = copyState(this.state);
+    const { matchCounter, undoStack, redoStack, lastUndoEntryId, actor, commandLog, currentBatch, commandTime, nestedCommand } = this;
+    const { rotationPolicy, scoringFormat, autoFinish, ratingOptions, insertionPolicy, sessionConfig } = this;
+    const undoEntries = [...undoStack];
+    const redoEntries = [...redoStack];
+    const logLength = commandLog.length;
+    const batchLength = currentBatch?.commands.length ?? 0;
+    const batchSnapshotTaken = currentBatch?.snapshotTaken ?? false;
+    const eventCount = this.pendingEvents.length;
+
+    return () => {
+      this.state = state;
+      this.matchCounter = matchCounter;
+      this.undoStack = undoEntries;
+      this.redoStack = redoEntries;
+      this.lastUndoEntryId = lastUndoEntryId;
+      this.actor = actor;
+      this.rotationPolicy = rotationPolicy;
+      this.scoringFormat = scoringFormat;
+      this.autoFinish = autoFinish;
+      this.ratingOptions = ratingOptions;
+      this.insertionPolicy = insertionPolicy;
+      this.sessionConfig = sessionConfig;
+      this.commandLog = commandLog;
+      commandLog.length = logLength;
+      if (currentBatch) {
+        currentBatch.commands.length = batchLength;
+        currentBatch.snapshotTaken = batchSnapshotTaken;
+      }
+      this.pendingEvents.length = eventCount;
+      this.nestedCommand = nestedCommand;
+      this.commandTime = commandTime;
+    };
+  }
+
+  /**
+   * Throw if a call that replaces the whole state is made inside a batch
+   * @throws {QueueManagementError} if a batch is in progress
+   */
+  private checkNotInBatch(method: string): void {
+    if (this.currentBatch) {
+      throw new QueueManagementError(`${method}() cannot be called inside a batch`);
     }
+  }
 
-    // No-op if indices are the same
-    if (fromIndex === toIndex) {
+  /**
+   * Write the state to the autosave storage once no call has been made for the debounce delay
+   */
+  private scheduleAutosave(): void {
+    if (!this.autosave) {
       return;
     }
+    if (this.autosaveTimer) {
+      clearTimeout(this.autosaveTimer);
+    }
+    this.autosaveTimer = setTimeout(() => {
+      this.autosaveTimer = null;
+      void this.writeAutosave();
+    }, this.autosave.debounceMs);
+  }
+
+  /**
+   * Queue a write of the current state behind any write in progress
+   * Failures are reported with autosaveFailed rather than thrown, since nobody awaits a debounced write.
+   */
+  private writeAutosave(): Promise<void> {
+    const { storage } = this.autosave!;
+    const savedState = this.saveState();
+    this.autosaveWrite = this.autosaveWrite
+      .then(() => storage.save(savedState))
+      .then(
+        () => this.emit('autosaved', { savedState }),
+        error => {
+          this.logger.log(`Autosave failed: ${error instanceof Error ? error.message : String(error)}`);
+          this.emit('autosaveFailed', { error });
+        }
+      );
+    return this.autosaveWrite;
+  }
+
+  /**
+   * Take the next teams from the queue (forming them from waiting players in individual-player mode)
+   * @throws {InsufficientTeamsError} if the queue doesn't have enough teams or players
+   */
+  private takeTeamsFromQueue(count: number, court: Court): Team[] {
+    if (this.state.queueMode === 'players') {
+      const playerQueue = this.state.playerQueue!;
+      if (playerQueue.length < count * 2) {
+        throw new InsufficientTeamsError(`Not enough players in queue to continue on court ${court.id}`);
+      }
+
+      const players = playerQueue.splice(0, count * 2);
+      return formTeams(players, this.state.pairing ?? 'rotating', {
+        timesPartnered: (a, b) => this.countTimesPartnered(a, b),
+        getRating: player => this.getPlayerRating(player),
+        random: () => this.nextRandom()
+      });
+    }
 
-    // Remove team from current position and insert at new position
-    const [team] = this.state.queue.splice(fromIndex, 1);
-    this.state.queue.splice(toIndex, 0, team);
+    // Paused teams are skipped but keep their place in the queue
+    const taken = this.state.queue.filter(team => !this.isTeamPaused(team)).slice(0, count);
+    if (taken.length < count) {
+      throw new InsufficientTeamsError(`Not enough teams in queue to continue on court ${court.id}`);
+    }
+    this.state.queue = this.state.queue.filter(team => !taken.includes(team));
+    this.markDequeued(taken);
+    return taken;
+  }
+
+  /**
+   * Find where a team currently is: its position in the queue or its slot in a court's match
+   */
+  private locateTeam(team: Team): { queueIndex: number } | { court: Court; slot: 'team1' | 'team2' } | null {
+    const queueIndex = this.state.queue.findIndex(t => areTeamsEqual(t, team));
+    if (queueIndex !== -1) {
+      return { queueIndex };
+    }
+
+    for (const court of this.state.courts) {
+      if (court.currentMatch && areTeamsEqual(court.currentMatch.team1, team)) {
+        return { court, slot: 'team1' };
+      }
+      if (court.currentMatch && areTeamsEqual(court.currentMatch.team2, team)) {
+        return { court, slot: 'team2' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether a player is waiting in the queue or playing on a court
+   */
+  private isPlayerInSession(player: Player): boolean {
+    const hasPlayer = (team: Team) => team.player1.id === player.id || team.player2.id === player.id;
+    return this.state.queue.some(hasPlayer) ||
+      (this.state.playerQueue ?? []).some(p => p.id === player.id) ||
+      this.state.courts.some(court => court.currentMatch !== null &&
+        (hasPlayer(court.currentMatch.team1) || hasPlayer(court.currentMatch.team2)));
+  }
+
+  /**
+   * Count the matches two players have played together in this session
+   */
+  private countTimesPartnered(a: Player, b: Player): number {
+    const pair = createTeam(a, b);
+    return this.getCountedResults().filter(result =>
+      areTeamsEqual(result.match.team1, pair) || areTeamsEqual(result.match.team2, pair)
+    ).length;
+  }
 
-    console.log(`Moved team [${team.player1.name}, ${team.player2.name}] from position ${fromIndex} to ${toIndex}`);
+  /**
+   * Draw a random number from the seeded generator stored in the state
+   */
+  private nextRandom(): number {
+    const [value, seed] = nextRandom(this.state.randomSeed ?? this.now());
+    this.state.randomSeed = seed;
+    return value;
   }
 
   /**
@@ -487,115 +2396,237 @@ export class QueueManager {
   }
 
   /**
-   * Create a snapshot of the current state for undo/redo (excludes currentScores)
+   * Create a snapshot of the current state for undo/redo (includes live scores and point events)
+   * @param info - The change the snapshot lets undo() revert or redo() reapply
    */
-  private createSnapshotData(): string {
-    const snapshotState = {
-      courts: this.state.courts.map(court => ({
-        id: court.id,
-        currentMatch: court.currentMatch ? {
-          team1: court.currentMatch.team1,
-          team2: court.currentMatch.team2,
-          matchNumber: court.currentMatch.matchNumber,
-          courtId: court.currentMatch.courtId
-          // Exclude currentScores
-        } : null,
-        consecutiveWins: court.consecutiveWins,
-        currentCourtTeam: court.currentCourtTeam
-      })),
-      queue: this.state.queue,
-      matchHistory: this.state.matchHistory
-    };
-    return JSON.stringify({
-      state: snapshotState,
-      matchCounter: this.matchCounter
+  private createSnapshotData(info: UndoEntry): HistoryEntry {
+    return captureEntry(this.state, this.matchCounter, info);
+  }
+
+  /**
+   * Save current state to undo stack (clears redo stack)
+   * @param description - The change about to be made, shown in the undo timeline
+   */
+  private saveSnapshot(description: string): void {
+    // A call made by another call is part of the other call's step, and a batch is a single step
+    if (this.nestedCommand) {
+      return;
+    }
+    if (this.currentBatch) {
+      if (this.currentBatch.snapshotTaken) {
+        return;
+      }
+      this.currentBatch.snapshotTaken = true;
+    }
+
+    const snapshot = this.createSnapshotData({
+      id: ++this.lastUndoEntryId,
+      description: this.currentBatch?.description ?? description,
+      actor: this.actor,
+      timestamp: new Date(this.now())
     });
+    this.undoStack.push(snapshot);
+    
+    // Trim undo stack if it exceeds max size
+    if (this.undoStack.length > this.maxHistorySize) {
+      this.undoStack.shift();
+    }
+    
+    // Clear redo stack on new action
+    this.redoStack = [];
+  }
+
+  /**
+   * Restore state from a snapshot (does not modify undo/redo stacks)
+   */
+  private restoreSnapshot(snapshot: HistoryEntry): void {
+    const { state, matchCounter } = restoreEntry(snapshot);
+    this.state = state;
+    this.matchCounter = matchCounter;
+  }
+
+  /**
+   * Revert the most recent change: move it from the undo stack to the redo stack
+   */
+  private stepBack(): void {
+    const previousSnapshot = this.undoStack.pop()!;
+
+    // Save current state to redo stack
+    this.redoStack.push(this.createSnapshotData(previousSnapshot.info));
+    
+    // Trim redo stack if it exceeds max size
+    if (this.redoStack.length > this.maxHistorySize) {
+      this.redoStack.shift();
+    }
+
+    // Restore previous state
+    this.restoreSnapshot(previousSnapshot);
   }
 
   /**
-   * Save current state to undo stack (clears redo stack)
+   * Reapply the next undone change: move it from the redo stack to the undo stack
    */
-  private saveSnapshot(): void {
-    const snapshot = this.createSnapshotData();
-    this.undoStack.push(snapshot);
+  private stepForward(): void {
+    const nextSnapshot = this.redoStack.pop()!;
+
+    // Save current state to undo stack
+    this.undoStack.push(this.createSnapshotData(nextSnapshot.info));
     
     // Trim undo stack if it exceeds max size
     if (this.undoStack.length > this.maxHistorySize) {
       this.undoStack.shift();
     }
-    
-    // Clear redo stack on new action
-    this.redoStack = [];
+
+    // Restore next state
+    this.restoreSnapshot(nextSnapshot);
   }
 
   /**
-   * Restore state from a snapshot (does not modify undo/redo stacks)
+   * Make several changes as one: they are undone and redone together, logged as one call, and
+   * rolled back together if the function throws (a call that throws and is caught inside the
+   * function is rolled back on its own). Events are emitted once the whole batch has succeeded.
+   * A batch started inside another batch is part of the outer one.
+   * @param run - Synchronous function making the changes through this manager
+   * @param description - Label of the undo step (defaults to "Batch of changes")
+   * @returns The value returned by run
+   * @throws Whatever run throws, after rolling back its changes
    */
-  private restoreSnapshot(snapshot: string): void {
-    const saveData = JSON.parse(snapshot);
-    
-    // Restore dates in match history
-    if (saveData.state.matchHistory) {
-      saveData.state.matchHistory = saveData.state.matchHistory.map((result: any) => ({
-        ...result,
-        timestamp: new Date(result.timestamp)
-      }));
+  batch<T>(run: () => T, description: string = 'Batch of changes'): T {
+    if (this.currentBatch) {
+      return this.transaction(run);
     }
 
-    this.state = saveData.state;
-    this.matchCounter = saveData.matchCounter;
+    return this.transaction(() => {
+      this.beginCommand();
+      const batch = { description, time: this.commandTime!, commands: [] as SessionCommand[], snapshotTaken: false };
+      this.currentBatch = batch;
+      let result: T;
+      try {
+        result = run();
+      } finally {
+        this.currentBatch = null;
+      }
+
+      if (batch.commands.length > 0) {
+        this.commandTime = batch.time;
+        this.logCommand({ type: 'batch', description, commands: batch.commands });
+        this.logger.log(`Batch "${description}": ${batch.commands.length} call(s)`);
+      } else {
+        this.commandTime = null;
+      }
+      return result;
+    });
   }
 
   /**
    * Undo the last state-changing operation
    * @returns true if undo was successful, false if there's nothing to undo
+   * @throws {QueueManagementError} if called inside a batch
    */
   undo(): boolean {
-    if (this.undoStack.length === 0) {
-      return false;
-    }
+    return this.transaction(() => {
+      this.checkNotInBatch('undo');
+      this.beginCommand();
+      if (this.undoStack.length === 0) {
+        return false;
+      }
 
-    // Save current state to redo stack
-    const currentSnapshot = this.createSnapshotData();
-    this.redoStack.push(currentSnapshot);
-    
-    // Trim redo stack if it exceeds max size
-    if (this.redoStack.length > this.maxHistorySize) {
-      this.redoStack.shift();
-    }
+      this.stepBack();
+      this.logCommand({ type: 'undo' });
 
-    // Restore previous state
-    const previousSnapshot = this.undoStack.pop()!;
-    this.restoreSnapshot(previousSnapshot);
-    
-    console.log('Undo successful');
-    return true;
+      this.logger.log('Undo successful');
+      this.emit('stateRestored', { source: 'undo' });
+      return true;
+    });
   }
 
   /**
    * Redo a previously undone operation
    * @returns true if redo was successful, false if there's nothing to redo
+   * @throws {QueueManagementError} if called inside a batch
    */
   redo(): boolean {
-    if (this.redoStack.length === 0) {
-      return false;
-    }
+    return this.transaction(() => {
+      this.checkNotInBatch('redo');
+      this.beginCommand();
+      if (this.redoStack.length === 0) {
+        return false;
+      }
 
-    // Save current state to undo stack
-    const currentSnapshot = this.createSnapshotData();
-    this.undoStack.push(currentSnapshot);
-    
-    // Trim undo stack if it exceeds max size
-    if (this.undoStack.length > this.maxHistorySize) {
-      this.undoStack.shift();
-    }
+      this.stepForward();
+      this.logCommand({ type: 'redo' });
 
-    // Restore next state
-    const nextSnapshot = this.redoStack.pop()!;
-    this.restoreSnapshot(nextSnapshot);
-    
-    console.log('Redo successful');
-    return true;
+      this.logger.log('Redo successful');
+      this.emit('stateRestored', { source: 'redo' });
+      return true;
+    });
+  }
+
+  /**
+   * Jump to a step of the undo/redo timeline in one call
+   * A step of the undo list is undone together with every change made after it; a step of the
+   * redo list is redone together with every undone change made before it.
+   * @param entryId - The id of a step from getUndoTimeline()
+   * @returns The number of changes undone or redone
+   * @throws {QueueManagementError} if the step is not in the undo or redo history, or if called inside a batch
+   */
+  revertTo(entryId: number): number {
+    return this.transaction(() => {
+      this.checkNotInBatch('revertTo');
+      this.beginCommand();
+      const undoIndex = this.undoStack.findIndex(entry => entry.info.id === entryId);
+      const redoIndex = this.redoStack.findIndex(entry => entry.info.id === entryId);
+
+      if (undoIndex === -1 && redoIndex === -1) {
+        throw new QueueManagementError(`Undo step ${entryId} is not in the undo or redo history`);
+      }
+
+      const source = undoIndex !== -1 ? 'undo' : 'redo';
+      const steps = undoIndex !== -1 ? this.undoStack.length - undoIndex : this.redoStack.length - redoIndex;
+      for (let i = 0; i < steps; i++) {
+        if (source === 'undo') {
+          this.stepBack();
+        } else {
+          this.stepForward();
+        }
+      }
+      this.logCommand({ type: 'revertTo', entryId });
+
+      this.logger.log(`${source === 'undo' ? 'Undid' : 'Redid'} ${steps} change(s)`);
+      this.emit('stateRestored', { source });
+      return steps;
+    });
+  }
+
+  /**
+   * Get the undo/redo timeline, e.g. to label undo and redo buttons
+   * @returns The changes undo() would revert (most recent first) and redo() would reapply (next first)
+   */
+  getUndoTimeline(): UndoTimeline {
+    return {
+      undo: this.undoStack.map(entry => ({ ...entry.info })).reverse(),
+      redo: this.redoStack.map(entry => ({ ...entry.info })).reverse()
+    };
+  }
+
+  /**
+   * Set who makes the next changes (e.g. the name of the organizer using this device)
+   * The actor is recorded with every undo step until it is changed.
+   * @param actor - A name, or null to stop recording an actor
+   */
+  setActor(actor: string | null): void {
+    this.transaction(() => {
+      this.beginCommand();
+      this.actor = actor;
+      this.logCommand({ type: 'setActor', actor });
+    });
+  }
+
+  /**
+   * Get who is recorded as making the changes (see setActor())
+   */
+  getActor(): string | null {
+    return this.actor;
   }
 
   /**
@@ -631,9 +2662,294 @@ export class QueueManager {
    * @param matchIndex - The index of the match in the history (0-based)
    * @param newScores - Array of two Score objects with updated scores
    * @throws {InvalidMatchIndexError} if matchIndex is out of bounds
-   * @throws {InvalidMatchResultError} if scores are equal or teams don't match
+   * @throws {InvalidMatchResultError} if scores are equal, impossible under the scoring format, or teams don't match
    */
   editMatchResult(matchIndex: number, newScores: [Score, Score]): void {
+    this.transaction(() => {
+      this.beginCommand();
+      const sortedScores = this.validateScoreEdit(matchIndex, newScores);
+      const result = this.state.matchHistory[matchIndex];
+
+      this.saveSnapshot(`Edited match ${result.match.matchNumber} (${sortedScores[0].score}-${sortedScores[1].score})`);
+    
+      // Replace the result (results are shared with undo steps, so they are never changed in place)
+      const edited: MatchResult = { ...result, scores: sortedScores, winner: sortedScores[0].team, loser: sortedScores[1].team };
+      this.state.matchHistory[matchIndex] = edited;
+      this.logCommand({ type: 'editMatchResult', matchIndex, scores: newScores });
+
+      this.logger.log(`Edited match ${matchIndex + 1}: ${edited.winner.player1.name}/${edited.winner.player2.name} won ${sortedScores[0].score}-${sortedScores[1].score}`);
+      this.emit('resultEdited', { matchIndex, result: edited });
+    });
+  }
+
+  /**
+   * Correct the result of a previously recorded match and recompute everything that followed
+   * The session is replayed from its log with the corrected result: later calls run again against the
+   * corrected state (later results by court position), and later matches played by other teams than the
+   * corrected queue expects are reported instead of silently diverging.
+   * @param matchIndex - The index of the match in the history (0-based)
+   * @param newScores - Array of two Score objects with the corrected scores
+   * @param options - dryRun: report the consequences without applying the correction
+   * @returns The corrected result, the inconsistent later matches and the later calls that could not be applied
+   * @throws {InvalidMatchIndexError} if matchIndex is out of bounds
+   * @throws {InvalidMatchResultError} if scores are equal, impossible under the scoring format, or teams don't match
+   * @throws {QueueManagementError} if the match was not recorded with recordResult() or updateScore() (autoFinish) in this session's log, or if applied inside a batch
+   */
+  correctMatchResult(matchIndex: number, newScores: [Score, Score], options: CorrectionOptions = {}): CorrectionReport {
+    return this.transaction(() => {
+      const sortedScores = this.validateScoreEdit(matchIndex, newScores);
+      const { matchNumber } = this.state.matchHistory[matchIndex].match;
+      const log = this.getSessionLog();
+
+      // Scores by court position: an earlier correction may have changed who played the match since it was logged
+      const { team1, team2 } = this.state.matchHistory[matchIndex].match;
+      const scoreOf = (team: Team) => sortedScores.find(score => areTeamsEqual(score.team, team))!.score;
+      const scores = { team1Score: scoreOf(team1), team2Score: scoreOf(team2) };
+
+      const origin = findResultCommand(log, matchIndex, matchNumber);
+      const correctedCommand = origin && correctResultCommand(log.commands[origin.index], origin.inner, scores);
+      if (!origin || !correctedCommand) {
+        throw new QueueManagementError(`Match ${matchNumber} was not recorded with recordResult() or updateScore() in this session's log and cannot be corrected`);
+      }
+
+      // Replay the session twice side by side: as it happened, and with the corrected result
+      const original = createReplayer(log.config);
+      const corrected = createReplayer(log.config);
+      const inconsistentMatches: InconsistentMatch[] = [];
+      const skippedCommands: SkippedCommand[] = [];
+      const reported = new Set<string>();
+
+      const checkCourt = (courtId: number) => {
+        const played = original.manager.getCourtMatch(courtId);
+        const expected = corrected.manager.getCourtMatch(courtId);
+        const key = `${courtId}-${played?.matchNumber}`;
+        if (!played || reported.has(key) || (expected && isSameMatchup(played, expected))) {
+          return;
+        }
+        reported.add(key);
+        inconsistentMatches.push({
+          matchNumber: played.matchNumber,
+          courtId,
+          played: [played.team1, played.team2],
+          expected: expected ? [expected.team1, expected.team2] : null
+        });
+      };
+
+      log.commands.forEach((command, index) => {
+        if (index < origin.index) {
+          original.run(command);
+          corrected.run(command);
+          return;
+        }
+
+        if (index === origin.index) {
+          original.run(command);
+          corrected.run(correctedCommand);
+          return;
+        }
+
+        if (COURT_PLAY_COMMANDS.has(command.type) && 'courtId' in command) {
+          checkCourt(command.courtId);
+        }
+        // A later correction's logged outcome was computed without this one, unless it corrected the same call again
+        const replayed = command.type === 'recordResult'
+          ? { ...command, scores: alignScores(original.manager.getCourtMatch(command.courtId), command.scores) }
+          : command.type === 'correctMatchResult' && !isSameOrigin(command.corrected?.origin, origin)
+            ? { at: command.at, type: command.type, matchIndex: command.matchIndex, scores: command.scores }
+            : command;
+
+        original.run(command);
+        try {
+          corrected.run(replayed);
+        } catch (error) {
+          skippedCommands.push({ command, reason: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      });
+
+      // Matches in progress
+      for (const court of original.manager.getCourts()) {
+        checkCourt(court.id);
+      }
+
+      const report: CorrectionReport = {
+        result: corrected.manager.state.matchHistory[matchIndex],
+        inconsistentMatches,
+        skippedCommands
+      };
+      if (options.dryRun) {
+        return report;
+      }
+
+      this.applyCorrection(matchIndex, newScores, { state: corrected.manager.state, matchCounter: corrected.manager.matchCounter, origin });
+      this.logger.log(`${inconsistentMatches.length} later match(es) inconsistent, ${skippedCommands.length} later call(s) skipped`);
+      return report;
+    });
+  }
+
+  /**
+   * Replace the state with the outcome of a correction and log it with that outcome
+   * Replays apply the logged outcome instead of recomputing it, since recomputing would replay the
+   * log again for every correction it contains.
+   * @param corrected - The corrected state and match counter, and the logged call the correction rewrote
+   * @throws {QueueManagementError} if called inside a batch
+   */
+  private applyCorrection(matchIndex: number, newScores: [Score, Score], corrected: CorrectionOutcome): void {
+    const { state, matchCounter } = corrected;
+    this.transaction(() => {
+      const sortedScores = this.validateScoreEdit(matchIndex, newScores);
+      const result = state.matchHistory[matchIndex];
+      this.checkNotInBatch('correctMatchResult');
+      this.beginCommand();
+      this.saveSnapshot(`Corrected match ${result.match.matchNumber} (${sortedScores[0].score}-${sortedScores[1].score})`);
+      this.state = state;
+      this.matchCounter = matchCounter;
+      this.logCommand({ type: 'correctMatchResult', matchIndex, scores: newScores, corrected });
+
+      this.logger.log(`Corrected match ${matchIndex + 1}: ${result.winner.player1.name}/${result.winner.player2.name} won ${sortedScores[0].score}-${sortedScores[1].score}`);
+      this.emit('stateRestored', { source: 'correction' });
+    });
+  }
+
+  /**
+   * Replay a logged correction (see applyCorrection); logs from before its outcome was logged are recomputed
+   */
+  private replayCorrection(command: Extract<SessionCommand, { type: 'correctMatchResult' }>): void {
+    if (!command.corrected) {
+      this.correctMatchResult(command.matchIndex, command.scores);
+      return;
+    }
+    const state = JSON.parse(JSON.stringify(command.corrected.state));
+    reviveStateDates(state);
+    this.applyCorrection(command.matchIndex, command.scores, { ...command.corrected, state });
+  }
+
+  /**
+   * Void a recorded match result
+   * The result stays in the match history with the reason (audit trail) but no longer counts towards
+   * statistics, the session winner, ratings or games played.
+   * @param matchIndex - The index of the match in the history (0-based)
+   * @param reason - Why the result is voided (e.g. "recorded on the wrong court")
+   * @param options - rollback: also put the match back on its court, and the court's streak and the queue
+   *   back to how they were before the result (only for the most recent result on that court)
+   * @throws {InvalidMatchIndexError} if matchIndex is out of bounds
+   * @throws {QueueManagementError} if the reason is empty, the result is already void, or it cannot be rolled back
+   */
+  voidMatch(matchIndex: number, reason: string, options: VoidMatchOptions = {}): void {
+    this.transaction(() => {
+      this.beginCommand();
+      if (matchIndex < 0 || matchIndex >= this.state.matchHistory.length) {
+        throw new InvalidMatchIndexError(matchIndex, this.state.matchHistory.length);
+      }
+      if (reason.trim() === '') {
+        throw new QueueManagementError('A reason is required to void a match');
+      }
+
+      const result = this.state.matchHistory[matchIndex];
+      if (result.voided) {
+        throw new QueueManagementError(`Match ${result.match.matchNumber} is already void`);
+      }
+
+      const rollback = options.rollback ?? false;
+      const court = rollback ? this.checkRollback(matchIndex) : null;
+
+      this.saveSnapshot(`Voided match ${result.match.matchNumber}: ${reason}`);
+      const voided: MatchResult = { ...result, voided: { reason, at: new Date(this.now()), rolledBack: rollback } };
+      this.state.matchHistory[matchIndex] = voided;
+
+      if (court) {
+        const { match, previousStreak, previousQueue } = result;
+        const current = court.currentMatch!;
+        const played = [match.team1, match.team2];
+        const onCourt = [current.team1, current.team2];
+        const returned = played.filter(team => !onCourt.some(t => areTeamsEqual(t, team)));
+
+        // Teams that came back to the queue leave it, teams pulled onto the court return to their places
+        this.state.queue = this.state.queue.filter(team => !returned.some(t => areTeamsEqual(t, team)));
+        this.state.pausedTeams = this.state.pausedTeams?.filter(entry => !returned.some(t => areTeamsEqual(t, entry.team)));
+        this.markDequeued(returned);
+        const pulled = [...previousQueue!.pulled].sort((a, b) => a.index - b.index);
+        for (const { team, index } of pulled) {
+          this.state.queue.splice(Math.min(index, this.state.queue.length), 0, team);
+        }
+        this.markQueued(pulled.map(({ team }) => team));
+
+        // The result no longer counts towards timed pauses
+        for (const before of previousQueue!.pausedTeams) {
+          const paused = this.state.pausedTeams?.find(entry => areTeamsEqual(entry.team, before.team));
+          if (paused && paused.matchesRemaining !== null) {
+            paused.matchesRemaining++;
+          } else if (!paused && before.matchesRemaining === 1 && this.state.queue.some(t => areTeamsEqual(t, before.team))) {
+            this.state.pausedTeams = [...(this.state.pausedTeams ?? []), { team: before.team, matchesRemaining: 1 }];
+          }
+        }
+
+        if (current.matchNumber === this.matchCounter) {
+          this.matchCounter--;
+        }
+        court.currentMatch = {
+          team1: match.team1,
+          team2: match.team2,
+          matchNumber: match.matchNumber,
+          courtId: court.id,
+          ...(match.startedAt ? { startedAt: match.startedAt } : {})
+        };
+        court.consecutiveWins = previousStreak!.consecutiveWins;
+        court.currentCourtTeam = previousStreak!.courtTeam;
+      }
+      this.logCommand({ type: 'voidMatch', matchIndex, reason, options });
+
+      this.logger.log(`Voided match ${matchIndex + 1}: ${reason}${court ? ` (court ${court.id} rolled back)` : ''}`);
+      this.emit('resultVoided', { matchIndex, result: voided });
+      if (court) {
+        this.emit('matchStarted', { courtId: court.id, match: court.currentMatch! });
+        this.emitQueueChanged();
+      }
+    });
+  }
+
+  /**
+   * Check that a result's effects on its court and the queue can be rolled back
+   * @returns The court of the result
+   * @throws {QueueManagementError} if the result is not the most recent on its court or the teams have moved on since
+   */
+  private checkRollback(matchIndex: number): Court {
+    const result = this.state.matchHistory[matchIndex];
+    const court = this.state.courts.find(c => c.id === result.courtId);
+
+    if (this.state.queueMode === 'players') {
+      throw new QueueManagementError('Results cannot be rolled back in individual-player mode');
+    }
+    if (!court || !court.currentMatch) {
+      throw new QueueManagementError(`Court ${result.courtId} is no longer in play; match ${result.match.matchNumber} cannot be rolled back`);
+    }
+    if (this.state.matchHistory.slice(matchIndex + 1).some(later => later.courtId === result.courtId)) {
+      throw new QueueManagementError(`Match ${result.match.matchNumber} is not the most recent result on court ${court.id} and cannot be rolled back`);
+    }
+    if (!result.previousStreak || !result.previousQueue) {
+      throw new QueueManagementError(`Match ${result.match.matchNumber} was recorded without its court streak and queue positions and cannot be rolled back`);
+    }
+    if (court.currentMatch.matchNumber !== result.previousQueue.nextMatchNumber) {
+      throw new QueueManagementError(`The match that followed match ${result.match.matchNumber} is no longer on court ${court.id}; match ${result.match.matchNumber} cannot be rolled back`);
+    }
+
+    const onCourt = [court.currentMatch.team1, court.currentMatch.team2];
+    for (const team of [result.match.team1, result.match.team2]) {
+      const stayed = onCourt.some(t => areTeamsEqual(t, team));
+      if (!stayed && !this.state.queue.some(t => areTeamsEqual(t, team))) {
+        throw new QueueManagementError(`Team [${team.player1.name}, ${team.player2.name}] has left the queue; match ${result.match.matchNumber} cannot be rolled back`);
+      }
+    }
+
+    return court;
+  }
+
+  /**
+   * Validate new scores for a recorded match
+   * @returns The scores sorted as [winner, loser]
+   * @throws {InvalidMatchIndexError} if matchIndex is out of bounds
+   * @throws {InvalidMatchResultError} if the match was played in sets, scores are equal or impossible under the scoring format, or teams don't match
+   */
+  private validateScoreEdit(matchIndex: number, newScores: [Score, Score]): [Score, Score] {
     // Validate match index
     if (matchIndex < 0 || matchIndex >= this.state.matchHistory.length) {
       throw new InvalidMatchIndexError(matchIndex, this.state.matchHistory.length);
@@ -641,32 +2957,52 @@ export class QueueManager {
 
     const result = this.state.matchHistory[matchIndex];
 
+    if (result.match.sets && result.match.sets.length > 0) {
+      throw new InvalidMatchResultError(`Match ${result.match.matchNumber} was played in sets; its scores cannot be edited as a single game`);
+    }
+
     // Validate that both teams are part of this match
     const matchTeams = [result.match.team1, result.match.team2];
     const validTeams = newScores.every(s => 
       matchTeams.some(t => areTeamsEqual(s.team, t))
-    );
+    ) && !areTeamsEqual(newScores[0].team, newScores[1].team);
     
     if (!validTeams) {
-      throw new InvalidMatchResultError('Teams in new scores must be part of the original match');
+      throw new InvalidMatchResultError('Teams in new scores must be part of the original match', 'TEAM_MISMATCH');
+    }
+
+    for (const s of newScores) {
+      validateScoreValue(s.score, 'score');
     }
 
     // Validate scores are not equal
     if (newScores[0].score === newScores[1].score) {
-      throw new InvalidMatchResultError('Scores cannot be equal');
+      throw new InvalidMatchResultError('Scores cannot be equal', 'TIED_SCORE');
     }
 
-    this.saveSnapshot();
-
     // Sort to determine winner/loser
     const sortedScores = [...newScores].sort((a, b) => b.score - a.score) as [Score, Score];
-    
-    // Update the result
-    result.scores = sortedScores;
-    result.winner = sortedScores[0].team;
-    result.loser = sortedScores[1].team;
 
-    console.log(`Edited match ${matchIndex + 1}: ${result.winner.player1.name}/${result.winner.player2.name} won ${sortedScores[0].score}-${sortedScores[1].score}`);
+    const court = this.state.courts.find(c => c.id === result.courtId);
+    this.checkScoresAgainstFormat(court, sortedScores);
+
+    return sortedScores;
+  }
+
+  /**
+   * Get the serializable description of the current rotation policy
+   */
+  private getRotationPolicyConfig(): RotationPolicyConfig {
+    return { type: this.rotationPolicy.type, options: this.rotationPolicy.options };
+  }
+
+  /**
+   * Get the ordered log of every state-changing call of this session
+   * The log is not rewound by undo(): undo and redo are logged like any other call.
+   * @returns A copy of the log, which replay() turns back into an identical manager
+   */
+  getSessionLog(): SessionLog {
+    return JSON.parse(JSON.stringify({ config: this.sessionConfig, commands: this.commandLog }));
   }
 
   /**
@@ -674,66 +3010,402 @@ export class QueueManager {
    * @returns A serializable representation of the current state
    */
   saveState(): string {
-    const saveData = {
+    const saveData: SaveData = {
+      version: SAVE_FORMAT_VERSION,
       state: this.state,
       matchCounter: this.matchCounter,
-      undoStack: this.undoStack,
-      redoStack: this.redoStack
+      rotationPolicy: this.getRotationPolicyConfig(),
+      scoringFormat: this.scoringFormat,
+      autoFinish: this.autoFinish,
+      rating: this.ratingOptions,
+      insertionPolicy: this.insertionPolicy,
+      undoStack: serializeHistory(this.undoStack, this.state.matchHistory),
+      redoStack: serializeHistory(this.redoStack, this.state.matchHistory),
+      lastUndoEntryId: this.lastUndoEntryId,
+      sessionLog: { config: this.sessionConfig, commands: this.commandLog }
     };
     return JSON.stringify(saveData);
   }
 
   /**
-   * Load a previously saved state (includes undo/redo stacks if available)
+   * Write any pending autosave now instead of waiting for the debounce delay (e.g. before the app exits)
+   * @returns A promise that resolves once every autosave write has finished (failures are reported with autosaveFailed)
+   */
+  flushAutosave(): Promise<void> {
+    if (!this.autosaveTimer) {
+      return this.autosaveWrite;
+    }
+    clearTimeout(this.autosaveTimer);
+    this.autosaveTimer = null;
+    return this.writeAutosave();
+  }
+
+  /**
+   * Load the state kept in a storage adapter, if any
+   * @param storage - The storage to read (usually the autosave storage)
+   * @returns true if a saved state was loaded, false if the storage was empty
+   * @throws {InvalidSaveStateError} if the stored save is malformed or from a newer format version
+   * @throws {Error} if the storage cannot be read or the stored state cannot be restored
+   */
+  async loadFromStorage(storage: StorageAdapter): Promise<boolean> {
+    const savedState = await storage.load();
+    if (savedState === null) {
+      return false;
+    }
+    this.loadState(savedState);
+    return true;
+  }
+
+  /**
+   * Load a previously saved state (includes undo/redo stacks and the session log if available)
+   * Saves from older format versions are migrated first, then the whole save is checked before
+   * anything is applied, so a rejected save leaves the manager untouched.
+   * Without a saved session log, the log restarts with this call.
    * @param savedState - A JSON string from a previous saveState() call
-   * @throws {Error} if the saved state is invalid
+   * @throws {InvalidSaveStateError} if the save is malformed or from a newer format version
+   * @throws {Error} if the saved state cannot be parsed or restored
+   * @throws {QueueManagementError} if called inside a batch
    */
   loadState(savedState: string): void {
-    try {
-      const saveData = JSON.parse(savedState);
-      
-      if (!saveData.state || typeof saveData.matchCounter !== 'number') {
-        throw new Error('Invalid saved state format');
-      }
+    this.transaction(() => {
+      this.checkNotInBatch('loadState');
+      this.beginCommand();
+      try {
+        const saveData = migrateSave(JSON.parse(savedState));
+        validateSave(saveData);
+
+        reviveStateDates(saveData.state);
+
+        // Restore the rotation policy if present, otherwise keep the current one
+        const rotationPolicy = saveData.rotationPolicy
+          ? createRotationPolicy(saveData.rotationPolicy as RotationPolicyConfig)
+          : this.rotationPolicy;
+        const ratingOptions = saveData.rating ? resolveRatingOptions(saveData.rating) : this.ratingOptions;
+        if (saveData.insertionPolicy) {
+          validateInsertionPolicy(saveData.insertionPolicy);
+        }
+
+        this.state = saveData.state;
+        this.matchCounter = saveData.matchCounter;
+        this.rotationPolicy = rotationPolicy;
+        this.ratingOptions = ratingOptions;
+        this.insertionPolicy = saveData.insertionPolicy ?? this.insertionPolicy;
+        if (saveData.scoringFormat !== undefined) {
+          this.scoringFormat = saveData.scoringFormat;
+        }
+        this.autoFinish = saveData.autoFinish ?? this.autoFinish;
+
+        // Restore undo/redo stacks (saves without them are migrated to empty stacks)
+        this.undoStack = deserializeHistory(saveData.undoStack, saveData.state.matchHistory);
+        this.redoStack = deserializeHistory(saveData.redoStack, saveData.state.matchHistory);
+        this.lastUndoEntryId = saveData.lastUndoEntryId;
+
+        if (saveData.sessionLog) {
+          this.sessionConfig = saveData.sessionLog.config;
+          this.commandLog = saveData.sessionLog.commands;
+          this.commandTime = null;
+          this.scheduleAutosave();
+        } else {
+          this.commandLog = [];
+          this.logCommand({ type: 'loadState', savedState });
+        }
 
-      // Restore dates in match history
-      if (saveData.state.matchHistory) {
-        saveData.state.matchHistory = saveData.state.matchHistory.map((result: any) => ({
-          ...result,
-          timestamp: new Date(result.timestamp)
-        }));
+        this.logger.log('State loaded successfully');
+        if (this.state.courts.length > 0 && this.state.courts[0].currentMatch) {
+          const firstMatch = this.state.courts[0].currentMatch;
+          this.logger.log(`Court 1 current match: Team [${firstMatch.team1.player1.name}, ${firstMatch.team1.player2.name}] vs Team [${firstMatch.team2.player1.name}, ${firstMatch.team2.player2.name}]`);
+        }
+        this.logger.log(`Queue size: ${this.state.queue.length}`);
+        this.logger.log(`Match history: ${this.state.matchHistory.length} matches`);
+        this.logger.log(`Undo depth: ${this.undoStack.length}, Redo depth: ${this.redoStack.length}`);
+      } catch (error) {
+        if (error instanceof InvalidSaveStateError) {
+          throw error;
+        }
+        throw new Error(`Failed to load state: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
 
-      this.state = saveData.state;
-      this.matchCounter = saveData.matchCounter;
+      this.emit('stateRestored', { source: 'load' });
+    });
+  }
+}
+
+/**
+ * Rebuild a manager by replaying a session log from scratch
+ * Every command runs at the time it was logged, so the rebuilt manager is identical to the original
+ * (its saveState() output matches) as long as custom rotation policies are registered under the same type.
+ * @param log - A log from getSessionLog()
+ * @param options - until: stop before commands issued after this time; logger and clock of the rebuilt manager
+ * @returns The rebuilt manager, whose session log continues from the replayed commands
+ * @throws {QueueManagementError} if the log contains an unknown command
+ */
+export function replay(log: SessionLog, options: ReplayOptions = {}): QueueManager {
+  const replayer = createReplayer(log.config, options);
+
+  const until = options.until?.getTime();
+  for (const command of log.commands) {
+    if (until !== undefined && command.at > until) {
+      break;
+    }
+    replayer.run(command);
+  }
+
+  return replayer.manager;
+}
+
+/**
+ * Commands that play the match in progress on a court
+ */
+const COURT_PLAY_COMMANDS = new Set<SessionCommand['type']>(['recordResult', 'recordSetResult', 'updateScore', 'undoLastPoint', 'setServer']);
+
+/**
+ * Create a manager from session settings, and a function that runs logged commands on it at their logged time
+ */
+function createReplayer(config: SessionConfig, options: ReplayOptions = {}): {
+  manager: QueueManager;
+  run: (command: SessionCommand, afterInner?: (index: number) => void) => void;
+} {
+  const clock = options.clock ?? Date.now;
+  let replayTime: number | null = null;
+
+  const manager = new QueueManager(config.numberOfCourts, config.maxHistorySize, {
+    rotationPolicy: createRotationPolicy(config.rotationPolicy),
+    scoringFormat: config.scoringFormat ?? undefined,
+    autoFinish: config.autoFinish,
+    rating: config.rating,
+    insertionPolicy: config.insertionPolicy,
+    logger: options.logger,
+    clock: () => replayTime ?? clock()
+  });
+
+  const run = (command: SessionCommand, afterInner?: (index: number) => void) => {
+    replayTime = command.at;
+    try {
+      applySessionCommand(manager, command, afterInner);
+    } finally {
+      replayTime = null;
+    }
+  };
 
-      // Restore undo/redo stacks if available, otherwise clear them
-      this.undoStack = Array.isArray(saveData.undoStack) ? saveData.undoStack : [];
-      this.redoStack = Array.isArray(saveData.redoStack) ? saveData.redoStack : [];
+  return { manager, run };
+}
 
-      console.log('State loaded successfully');
-      if (this.state.courts.length > 0 && this.state.courts[0].currentMatch) {
-        const firstMatch = this.state.courts[0].currentMatch;
-        console.log(`Court 1 current match: Team [${firstMatch.team1.player1.name}, ${firstMatch.team1.player2.name}] vs Team [${firstMatch.team2.player1.name}, ${firstMatch.team2.player2.name}]`);
+/**
+ * Find the logged command that recorded a match result (the last one, if the result was undone and recorded again)
+ * @returns The index of the command and, for a batch, the index of the call in the batch that recorded it;
+ *   null if the result was not created by a command of the log
+ */
+function findResultCommand(log: SessionLog, matchIndex: number, matchNumber: number): { index: number; inner: number | null } | null {
+  const replayer = createReplayer(log.config);
+  const isRecorded = () => replayer.manager.getMatchHistory().length > matchIndex;
+  let origin: { index: number; inner: number | null } | null = null;
+
+  log.commands.forEach((command, index) => {
+    let recordedBefore = isRecorded();
+    const check = (inner: number | null) => {
+      const history = replayer.manager.getMatchHistory();
+      if (!recordedBefore && isRecorded() && history[matchIndex].match.matchNumber === matchNumber) {
+        origin = { index, inner };
       }
-      console.log(`Queue size: ${this.state.queue.length}`);
-      console.log(`Match history: ${this.state.matchHistory.length} matches`);
-      console.log(`Undo depth: ${this.undoStack.length}, Redo depth: ${this.redoStack.length}`);
-    } catch (error) {
-      throw new Error(`Failed to load state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      recordedBefore = isRecorded();
+    };
+
+    replayer.run(command, inner => check(inner));
+    if (command.type !== 'batch') {
+      check(null);
     }
+  });
+
+  return origin;
+}
+
+/**
+ * Whether two corrections rewrote the same logged call
+ */
+function isSameOrigin(a: CorrectionOutcome['origin'] | undefined, b: CorrectionOutcome['origin']): boolean {
+  return a !== undefined && a.index === b.index && a.inner === b.inner;
+}
+
+/**
+ * Rewrite the logged command that recorded a result so it records corrected scores instead
+ * A score update that finished the match automatically becomes the recordResult() call it made.
+ * @param inner - For a batch, the index of the call in the batch that recorded the result
+ * @param scores - The corrected scores, by court position
+ * @returns The rewritten command, or null if the command cannot be rewritten
+ */
+function correctResultCommand(command: SessionCommand, inner: number | null, scores: MatchScoreInput): SessionCommand | null {
+  if (command.type === 'batch' && inner !== null) {
+    const corrected = correctResultCommand(command.commands[inner], null, scores);
+    return corrected && { ...command, commands: command.commands.map((call, i) => (i === inner ? corrected : call)) };
+  }
+  if (command.type === 'recordResult' || command.type === 'updateScore') {
+    return { at: command.at, type: 'recordResult', courtId: command.courtId, scores };
+  }
+  return null;
+}
+
+/**
+ * Convert recordResult scores to the { team1Score, team2Score } form of the match they were recorded for
+ */
+function alignScores(match: Match | null, scores: MatchScoreInput | Record<number, Team>): MatchScoreInput | Record<number, Team> {
+  if (!match || isMatchScoreInput(scores)) {
+    return scores;
+  }
+
+  const scoreOf = (team: Team) => Number(Object.entries(scores).find(([, t]) => areTeamsEqual(t, team))?.[0]);
+  return { team1Score: scoreOf(match.team1), team2Score: scoreOf(match.team2) };
+}
+
+/**
+ * Check whether two matches are played by the same teams (in any order)
+ */
+function isSameMatchup(match1: Match, match2: Match): boolean {
+  return (areTeamsEqual(match1.team1, match2.team1) && areTeamsEqual(match1.team2, match2.team2)) ||
+    (areTeamsEqual(match1.team1, match2.team2) && areTeamsEqual(match1.team2, match2.team1));
+}
+
+/**
+ * Run one logged command against a manager
+ * @param afterInner - Called after each call of a batch, with its index in the batch
+ */
+function applySessionCommand(manager: QueueManager, command: SessionCommand, afterInner?: (index: number) => void): void {
+  switch (command.type) {
+    case 'initialize':
+      manager.initialize(command.teams);
+      break;
+    case 'initializePlayers':
+      manager.initializePlayers(command.players, { pairing: command.pairing, seed: command.seed });
+      break;
+    case 'addTeams':
+      manager.addTeams(command.teams, command.policy);
+      break;
+    case 'addPlayers':
+      manager.addPlayers(command.players);
+      break;
+    case 'recordResult':
+      manager.recordResult(command.courtId, command.scores as MatchScoreInput);
+      break;
+    case 'recordSetResult':
+      manager.recordSetResult(command.courtId, command.scores);
+      break;
+    case 'updateScore':
+      manager.updateScore(command.courtId, command.teamIndex, command.delta);
+      break;
+    case 'undoLastPoint':
+      manager.undoLastPoint(command.courtId);
+      break;
+    case 'setServer':
+      manager.setServer(command.courtId, command.teamIndex, command.player);
+      break;
+    case 'reorderTeamInQueue':
+      manager.reorderTeamInQueue(command.fromIndex, command.toIndex);
+      break;
+    case 'editMatchResult':
+      manager.editMatchResult(command.matchIndex, command.scores);
+      break;
+    case 'correctMatchResult':
+      // Not part of the public API: replays apply the logged outcome of the correction
+      manager['replayCorrection'](command);
+      break;
+    case 'voidMatch':
+      manager.voidMatch(command.matchIndex, command.reason, command.options);
+      break;
+    case 'setRotationPolicy':
+      manager.setRotationPolicy(createRotationPolicy(command.policy));
+      break;
+    case 'setCourtMode':
+      manager.setCourtMode(command.courtId, command.mode, command.options);
+      break;
+    case 'setScoringFormat':
+      manager.setScoringFormat(command.format);
+      break;
+    case 'setCourtScoringFormat':
+      manager.setCourtScoringFormat(command.courtId, command.format);
+      break;
+    case 'setInsertionPolicy':
+      manager.setInsertionPolicy(command.policy);
+      break;
+    case 'addCourt':
+      manager.addCourt();
+      break;
+    case 'closeCourt':
+      manager.closeCourt(command.courtId, command.options);
+      break;
+    case 'removeTeam':
+      manager.removeTeam(command.team);
+      break;
+    case 'substitutePlayer':
+      manager.substitutePlayer(command.team, command.oldPlayer, command.newPlayer);
+      break;
+    case 'pauseTeam':
+      manager.pauseTeam(command.team, { matches: command.matches });
+      break;
+    case 'resumeTeam':
+      manager.resumeTeam(command.team);
+      break;
+    case 'undo':
+      manager.undo();
+      break;
+    case 'redo':
+      manager.redo();
+      break;
+    case 'revertTo':
+      manager.revertTo(command.entryId);
+      break;
+    case 'setActor':
+      manager.setActor(command.actor);
+      break;
+    case 'loadState':
+      manager.loadState(command.savedState);
+      break;
+    case 'batch':
+      manager.batch(() => command.commands.forEach((inner, index) => {
+        applySessionCommand(manager, inner);
+        afterInner?.(index);
+      }), command.description);
+      break;
+    default:
+      throw new QueueManagementError(`Unknown session command: ${(command as { type: string }).type}`);
   }
 }
 
 /**
- * Compare two teams for equality (order-independent)
- * Teams are equal if they contain the same players regardless of order
+ * A session command before it is stamped with the time it was issued
  */
-export function areTeamsEqual(team1: Team, team2: Team): boolean {
-  const team1Ids = [team1.player1.id, team1.player2.id].sort();
-  const team2Ids = [team2.player1.id, team2.player2.id].sort();
-  
-  return team1Ids[0] === team2Ids[0] && team1Ids[1] === team2Ids[1];
+type SessionCommandInput = SessionCommand extends infer Command
+  ? Command extends SessionCommand ? Omit<Command, 'at'> : never
+  : never;
+
+/**
+ * Check whether a recordResult argument uses the explicit { team1Score, team2Score } form
+ */
+function isMatchScoreInput(input: MatchScoreInput | Record<number, Team>): input is MatchScoreInput {
+  return 'team1Score' in input || 'team2Score' in input;
+}
+
+/**
+ * Short name of a team for undo step descriptions (e.g. "Alice/Bob")
+ */
+function formatTeam(team: Team): string {
+  return `${team.player1.name}/${team.player2.name}`;
+}
+
+/**
+ * Count the sets won by team1 and team2
+ */
+function countSetsWon(sets: SetScore[]): [number, number] {
+  const team1Sets = sets.filter(set => set.team1 > set.team2).length;
+  return [team1Sets, sets.length - team1Sets];
+}
+
+/**
+ * Validate a single score value (finite, non-negative integer)
+ * @throws {InvalidMatchResultError} with reason INVALID_SCORE
+ */
+function validateScoreValue(score: number, label: string): void {
+  if (typeof score !== 'number' || !Number.isInteger(score) || score < 0) {
+    throw new InvalidMatchResultError(`Invalid ${label}: ${score}. Scores must be non-negative integers`, 'INVALID_SCORE');
+  }
 }
 
 /**
@@ -0,0 +1,86 @@
+import { type MatchResult, type Player, type PlayerRating, type RatingOptions, QueueManagementError } from './types';
+import { areTeamsEqual } from './teams';
+
+/**
+ * Validate rating settings and fill in the defaults
+ * @throws {QueueManagementError} if initialRating or kFactor are invalid
+ */
+export function resolveRatingOptions(options: RatingOptions = {}): Required<RatingOptions> {
+  const { initialRating = 1500, kFactor = 32, marginWeighted = false } = options;
+
+  if (!Number.isFinite(initialRating)) {
+    throw new QueueManagementError(`Invalid initialRating: ${initialRating}. Rating must be a finite number`);
+  }
+
+  if (!Number.isFinite(kFactor) || kFactor <= 0) {
+    throw new QueueManagementError(`Invalid kFactor: ${kFactor}. K-factor must be a positive number`);
+  }
+
+  return { initialRating, kFactor, marginWeighted };
+}
+
+/**
+ * Probability that a side rated `rating` beats a side rated `opponentRating`
+ */
+export function getExpectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Multiplier applied to rating changes for a score margin (1 for a one-point win, +1 each time the margin doubles)
+ */
+export function getMarginMultiplier(winnerScore: number, loserScore: number): number {
+  return Math.max(1, Math.log2(winnerScore - loserScore + 1));
+}
+
+/**
+ * Replay a match history and compute every player's rating
+ * A team's rating is the average of its players' ratings. After each match, both winners gain
+ * and both losers lose K × multiplier × (1 - expected score of the winning team).
+ * @param history - Match results in play order
+ * @param options - Resolved rating settings
+ * @returns Ratings keyed by player ID (only players who have played)
+ */
+export function computeRatings(history: MatchResult[], options: Required<RatingOptions>): Map<number, PlayerRating> {
+  const ratings = new Map<number, PlayerRating>();
+
+  const getEntry = (player: Player): PlayerRating => {
+    let entry = ratings.get(player.id);
+    if (!entry) {
+      entry = { player, rating: player.rating ?? options.initialRating, gamesPlayed: 0, history: [] };
+      ratings.set(player.id, entry);
+    }
+    return entry;
+  };
+
+  for (const result of history) {
+    const winners = [getEntry(result.winner.player1), getEntry(result.winner.player2)];
+    const losers = [getEntry(result.loser.player1), getEntry(result.loser.player2)];
+    const average = (entries: PlayerRating[]) => (entries[0].rating + entries[1].rating) / 2;
+
+    let multiplier = 1;
+    if (options.marginWeighted && result.scores) {
+      const winnerScore = result.scores.find(s => areTeamsEqual(s.team, result.winner))?.score ?? 0;
+      const loserScore = result.scores.find(s => areTeamsEqual(s.team, result.loser))?.score ?? 0;
+      multiplier = getMarginMultiplier(winnerScore, loserScore);
+    }
+
+    const delta = options.kFactor * multiplier * (1 - getExpectedScore(average(winners), average(losers)));
+
+    for (const [entries, change] of [[winners, delta], [losers, -delta]] as const) {
+      for (const entry of entries) {
+        entry.rating += change;
+        entry.gamesPlayed++;
+        entry.history.push({
+          matchNumber: result.match.matchNumber,
+          courtId: result.courtId,
+          timestamp: result.timestamp,
+          rating: entry.rating,
+          delta: change
+        });
+      }
+    }
+  }
+
+  return ratings;
+}
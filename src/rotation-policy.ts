@@ -0,0 +1,143 @@
+import {
+  type RotationPolicy,
+  type RotationPolicyConfig,
+  type RotationContext,
+  type RotationDecision,
+  QueueManagementError
+} from './types';
+
+/**
+ * Factory that rebuilds a rotation policy from its serialized options (as saved, so not checked yet)
+ */
+export type RotationPolicyFactory = (options?: Record<string, unknown>) => RotationPolicy;
+
+const policyFactories = new Map<string, RotationPolicyFactory>();
+
+/**
+ * Register a rotation policy factory so that saved states using it can be loaded
+ * @param type - The policy type, as stored in RotationPolicy.type
+ * @param factory - Function that builds the policy from its options
+ */
+export function registerRotationPolicy(type: string, factory: RotationPolicyFactory): void {
+  policyFactories.set(type, factory);
+}
+
+/**
+ * Build a rotation policy from its serializable description
+ * @throws {QueueManagementError} if no policy is registered for the given type
+ */
+export function createRotationPolicy(config: RotationPolicyConfig): RotationPolicy {
+  const factory = policyFactories.get(config.type);
+  if (!factory) {
+    throw new QueueManagementError(`Unknown rotation policy: ${config.type}`);
+  }
+  return factory(config.options);
+}
+
+/**
+ * Options for the winner-stays policy
+ */
+export interface WinnerStaysOptions {
+  /** Wins in a row after which both teams leave the court (null = unlimited). Defaults to 2. */
+  maxConsecutiveWins?: number | null;
+}
+
+/**
+ * Winner stays on court, loser goes to the end of the queue.
+ * Once the winner reaches `maxConsecutiveWins` in a row, both teams go to the end of the queue
+ * (winner first, then loser). The cap is bypassed when fewer than 2 teams are waiting,
+ * so play is never blocked.
+ */
+export function createWinnerStaysPolicy(options: WinnerStaysOptions = {}): RotationPolicy {
+  const maxConsecutiveWins = options.maxConsecutiveWins === undefined ? 2 : options.maxConsecutiveWins;
+
+  if (maxConsecutiveWins !== null && (!Number.isInteger(maxConsecutiveWins) || maxConsecutiveWins < 1)) {
+    throw new QueueManagementError('maxConsecutiveWins must be a positive integer or null');
+  }
+
+  return {
+    type: 'winner-stays',
+    options: { maxConsecutiveWins },
+    decide({ winner, loser, consecutiveWins, queueLength }: RotationContext): RotationDecision {
+      if (maxConsecutiveWins !== null && consecutiveWins >= maxConsecutiveWins && queueLength >= 2) {
+        return { stays: null, toQueueFront: [], toQueueBack: [winner, loser] };
+      }
+      return { stays: winner, toQueueFront: [], toQueueBack: [loser] };
+    }
+  };
+}
+
+/**
+ * Both teams always go to the end of the queue after each match (winner first, then loser)
+ */
+export function createEveryoneRotatesPolicy(): RotationPolicy {
+  return {
+    type: 'everyone-rotates',
+    options: {},
+    decide({ winner, loser }: RotationContext): RotationDecision {
+      return { stays: null, toQueueFront: [], toQueueBack: [winner, loser] };
+    }
+  };
+}
+
+/**
+ * King of the court: the winner never leaves, the loser goes to the end of the queue
+ */
+export function createKingOfTheCourtPolicy(): RotationPolicy {
+  return {
+    type: 'king-of-the-court',
+    options: {},
+    decide({ winner, loser }: RotationContext): RotationDecision {
+      return { stays: winner, toQueueFront: [], toQueueBack: [loser] };
+    }
+  };
+}
+
+/**
+ * Options for the challenger-court policy
+ */
+export interface ChallengerCourtOptions {
+  /** Wins in a row after which the winner leaves the court. Defaults to 2. */
+  maxConsecutiveWins?: number;
+}
+
+/**
+ * Challenger court: the winner stays until it reaches `maxConsecutiveWins` in a row,
+ * then goes to the end of the queue while the loser gets priority at the head of the queue.
+ * Before the cap, the loser goes to the end of the queue as usual.
+ */
+export function createChallengerCourtPolicy(options: ChallengerCourtOptions = {}): RotationPolicy {
+  const maxConsecutiveWins = options.maxConsecutiveWins ?? 2;
+
+  if (!Number.isInteger(maxConsecutiveWins) || maxConsecutiveWins < 1) {
+    throw new QueueManagementError('maxConsecutiveWins must be a positive integer');
+  }
+
+  return {
+    type: 'challenger-court',
+    options: { maxConsecutiveWins },
+    decide({ winner, loser, consecutiveWins }: RotationContext): RotationDecision {
+      if (consecutiveWins >= maxConsecutiveWins) {
+        return { stays: null, toQueueFront: [loser], toQueueBack: [winner] };
+      }
+      return { stays: winner, toQueueFront: [], toQueueBack: [loser] };
+    }
+  };
+}
+
+/**
+ * Read the maxConsecutiveWins option of a serialized policy
+ * @throws {QueueManagementError} if it is set to something other than a number or null
+ */
+function readMaxConsecutiveWins(options: Record<string, unknown> = {}): number | null | undefined {
+  const { maxConsecutiveWins } = options;
+  if (maxConsecutiveWins === undefined || maxConsecutiveWins === null || typeof maxConsecutiveWins === 'number') {
+    return maxConsecutiveWins;
+  }
+  throw new QueueManagementError(`maxConsecutiveWins must be a number, got ${JSON.stringify(maxConsecutiveWins)}`);
+}
+
+registerRotationPolicy('winner-stays', options => createWinnerStaysPolicy({ maxConsecutiveWins: readMaxConsecutiveWins(options) }));
+registerRotationPolicy('everyone-rotates', createEveryoneRotatesPolicy);
+registerRotationPolicy('king-of-the-court', createKingOfTheCourtPolicy);
+registerRotationPolicy('challenger-court', options => createChallengerCourtPolicy({ maxConsecutiveWins: readMaxConsecutiveWins(options) ?? undefined }));
@@ -0,0 +1,544 @@
+import {
+  type Match,
+  type MatchResult,
+  type Player,
+  type SaveData,
+  type ScoringFormat,
+  type SystemState,
+  type Team,
+  InvalidSaveStateError,
+  QueueManagementError
+} from './types';
+import { validateScoringFormat } from './scoring';
+import { areTeamsEqual } from './teams';
+
+/**
+ * Version written by saveState()
+ * 1: saves written before the format was versioned
+ * 2: adds `version`; undo/redo stacks are always present
+ * 3: undo/redo steps are saved as diffs (SavedHistoryEntry) instead of full state snapshots
+ * 4: undo/redo steps carry an id, description, actor and timestamp
+ * 5: adds the autoFinish setting
+ */
+export const SAVE_FORMAT_VERSION = 5;
+
+type SaveObject = Record<string, unknown>;
+
+/**
+ * Migrations from each older save format version to the next one
+ */
+const MIGRATIONS: Record<number, (save: SaveObject) => SaveObject> = {
+  1: save => {
+    const state = isObject(save.state) ? { ...save.state } : save.state;
+    // Older results only recorded their court on the match
+    if (isObject(state) && Array.isArray(state.matchHistory)) {
+      state.matchHistory = state.matchHistory.map((result: unknown) =>
+        isObject(result) && result.courtId === undefined && isObject(result.match) && result.match.courtId !== undefined
+          ? { ...result, courtId: result.match.courtId }
+          : result
+      );
+    }
+    return { ...save, version: 2, state, undoStack: save.undoStack ?? [], redoStack: save.redoStack ?? [] };
+  },
+  2: save => {
+    const current = isObject(save.state) && Array.isArray(save.state.matchHistory) ? save.state.matchHistory : [];
+    return {
+      ...save,
+      version: 3,
+      undoStack: Array.isArray(save.undoStack) ? diffSnapshots(save.undoStack, current) : save.undoStack,
+      redoStack: Array.isArray(save.redoStack) ? diffSnapshots(save.redoStack, current) : save.redoStack
+    };
+  },
+  3: save => {
+    // Number the steps in the order the changes were made: the undo stack from the oldest step,
+    // then the redo stack from its top (the earliest undone change)
+    let id = 0;
+    const label = (entry: unknown) =>
+      isObject(entry) ? { ...entry, info: { id: ++id, description: 'Earlier change', actor: null, timestamp: null } } : entry;
+    const undoStack = Array.isArray(save.undoStack) ? save.undoStack.map(label) : save.undoStack;
+    const redoStack = Array.isArray(save.redoStack) ? [...save.redoStack].reverse().map(label).reverse() : save.redoStack;
+    return { ...save, version: 4, undoStack, redoStack, lastUndoEntryId: id };
+  },
+  4: save => {
+    // The setting was only kept in the session settings of the log, if any
+    const config = isObject(save.sessionLog) && isObject(save.sessionLog.config) ? save.sessionLog.config : {};
+    return { ...save, version: 5, ...(typeof config.autoFinish === 'boolean' ? { autoFinish: config.autoFinish } : {}) };
+  }
+};
+
+/**
+ * Convert full state snapshots (JSON strings, oldest first) to saved history entries
+ * Snapshots that cannot be parsed are kept as they are, for validation to report.
+ */
+function diffSnapshots(snapshots: unknown[], current: unknown[]): unknown[] {
+  const entries: unknown[] = [];
+  let newer = current.map(result => JSON.stringify(result));
+
+  for (let i = snapshots.length - 1; i >= 0; i--) {
+    let snapshot: unknown;
+    try {
+      snapshot = typeof snapshots[i] === 'string' ? JSON.parse(snapshots[i] as string) : undefined;
+    } catch {
+      snapshot = undefined;
+    }
+    if (!isObject(snapshot) || !isObject(snapshot.state) || !Array.isArray(snapshot.state.matchHistory)) {
+      entries.unshift(snapshots[i]);
+      continue;
+    }
+
+    const { matchHistory, ...state } = snapshot.state;
+    const results = matchHistory.map((result: unknown) => JSON.stringify(result));
+    const changed: Record<number, unknown> = {};
+    results.forEach((result: string, index: number) => {
+      if (result !== newer[index]) {
+        changed[index] = matchHistory[index];
+      }
+    });
+    entries.unshift({ state, matchCounter: snapshot.matchCounter, history: { length: matchHistory.length, changed } });
+    newer = results;
+  }
+
+  return entries;
+}
+
+/**
+ * Bring a parsed save up to the current format version
+ * @returns The migrated save (not validated yet)
+ * @throws {InvalidSaveStateError} if the save is not an object or its version is unknown
+ */
+export function migrateSave(save: unknown): SaveObject {
+  let migrated = expectObject(save, '');
+  const version = migrated.version ?? 1;
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new InvalidSaveStateError('version', `must be a positive integer, got ${JSON.stringify(version)}`);
+  }
+  if (version > SAVE_FORMAT_VERSION) {
+    throw new InvalidSaveStateError('version', `${version} is newer than the supported version ${SAVE_FORMAT_VERSION}`);
+  }
+
+  for (let from = version; from < SAVE_FORMAT_VERSION; from++) {
+    migrated = MIGRATIONS[from](migrated);
+  }
+  return migrated;
+}
+
+/**
+ * Check the structure of a migrated save
+ * @throws {InvalidSaveStateError} with the path of the first problem found
+ */
+export function validateSave(save: SaveObject): asserts save is SaveObject & SaveData {
+  expectInteger(save.matchCounter, 'matchCounter', 0);
+  const state = expectObject(save.state, 'state');
+  const highest = validateState(state, 'state');
+
+  const entryIds = new Set<number>();
+  const historyLength = expectArray(state.matchHistory, 'state.matchHistory').length;
+  for (const stack of ['undoStack', 'redoStack']) {
+    validateHistory(expectArray(save[stack], stack), historyLength, stack, entryIds);
+  }
+  expectInteger(save.lastUndoEntryId, 'lastUndoEntryId', Math.max(0, ...entryIds));
+
+  if (save.rotationPolicy !== undefined) {
+    const policy = expectObject(save.rotationPolicy, 'rotationPolicy');
+    expectString(policy.type, 'rotationPolicy.type');
+  }
+  if (save.scoringFormat !== undefined && save.scoringFormat !== null) {
+    validateFormat(save.scoringFormat, 'scoringFormat');
+  }
+  if (save.autoFinish !== undefined) {
+    expectBoolean(save.autoFinish, 'autoFinish');
+  }
+  if (save.rating !== undefined) {
+    expectObject(save.rating, 'rating');
+  }
+  if (save.insertionPolicy !== undefined) {
+    expectString(expectObject(save.insertionPolicy, 'insertionPolicy').type, 'insertionPolicy.type');
+  }
+  if (save.sessionLog !== undefined) {
+    const log = expectObject(save.sessionLog, 'sessionLog');
+    expectObject(log.config, 'sessionLog.config');
+    expectArray(log.commands, 'sessionLog.commands').forEach((value, i) => {
+      const path = `sessionLog.commands[${i}]`;
+      const command = expectObject(value, path);
+      expectNumber(command.at, `${path}.at`);
+      expectString(command.type, `${path}.type`);
+    });
+  }
+
+  // Match numbers come from the counter, so none can be higher
+  if (save.matchCounter < highest) {
+    throw new InvalidSaveStateError('matchCounter', `must be at least ${highest} (the highest match number)`);
+  }
+}
+
+/**
+ * Restore Date objects in a parsed state (match start/end times, history timestamps, match events and void times)
+ */
+export function reviveStateDates(state: Omit<SystemState, 'matchHistory'> & { matchHistory?: MatchResult[] }): void {
+  // Parsed dates are still ISO strings, which the Date constructor takes as well
+  const reviveMatch = (match: Match | null) => {
+    if (match?.startedAt) {
+      match.startedAt = new Date(match.startedAt);
+    }
+    if (match?.events) {
+      match.events = match.events.map(event => ({ ...event, timestamp: new Date(event.timestamp) }));
+    }
+  };
+
+  if (state.matchHistory) {
+    state.matchHistory = state.matchHistory.map(result => {
+      reviveMatch(result.match);
+      return {
+        ...result,
+        timestamp: new Date(result.timestamp),
+        ...(result.endedAt ? { endedAt: new Date(result.endedAt) } : {}),
+        ...(result.voided ? { voided: { ...result.voided, at: new Date(result.voided.at) } } : {})
+      };
+    });
+  }
+
+  for (const court of state.courts ?? []) {
+    reviveMatch(court.currentMatch);
+  }
+}
+
+/**
+ * Check an undo or redo stack, whose steps are diffs against the next newer step
+ * @param currentLength - Length of the current match history
+ * @param entryIds - IDs of the steps checked so far (step IDs are unique across both stacks)
+ */
+function validateHistory(entries: unknown[], currentLength: number, path: string, entryIds: Set<number>): void {
+  let newerLength = currentLength;
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entryPath = `${path}[${i}]`;
+    const entry = expectObject(entries[i], entryPath);
+    const info = expectObject(entry.info, `${entryPath}.info`);
+    expectInteger(info.id, `${entryPath}.info.id`, 1);
+    if (entryIds.has(info.id)) {
+      throw new InvalidSaveStateError(`${entryPath}.info.id`, `duplicates step ${info.id}`);
+    }
+    entryIds.add(info.id);
+    expectString(info.description, `${entryPath}.info.description`);
+    expectNullable(info.actor, `${entryPath}.info.actor`, expectString);
+    expectNullable(info.timestamp, `${entryPath}.info.timestamp`, expectDate);
+    expectInteger(entry.matchCounter, `${entryPath}.matchCounter`, 0);
+    validateState({ ...expectObject(entry.state, `${entryPath}.state`), matchHistory: [] }, `${entryPath}.state`);
+
+    const history = expectObject(entry.history, `${entryPath}.history`);
+    expectInteger(history.length, `${entryPath}.history.length`, 0);
+    const changed = expectObject(history.changed, `${entryPath}.history.changed`);
+    for (const [key, result] of Object.entries(changed)) {
+      const index = Number(key);
+      if (!Number.isInteger(index) || index < 0 || index >= history.length) {
+        throw new InvalidSaveStateError(`${entryPath}.history.changed.${key}`, `is outside the history of ${history.length} results`);
+      }
+      validateResult(result, `${entryPath}.history.changed.${key}`);
+    }
+    // Results past the end of the newer history cannot be shared with it
+    for (let index = newerLength; index < history.length; index++) {
+      if (!(index in changed)) {
+        throw new InvalidSaveStateError(`${entryPath}.history.changed`, `is missing result ${index}`);
+      }
+    }
+    newerLength = history.length;
+  }
+}
+
+/**
+ * Check the system state of a save
+ * @returns The highest match number in the state (0 if none)
+ */
+function validateState(state: SaveObject, path: string): number {
+  const courts = expectArray(state.courts, `${path}.courts`);
+  if (courts.length === 0) {
+    throw new InvalidSaveStateError(`${path}.courts`, 'must contain at least one court');
+  }
+
+  const courtIds = new Set<number>();
+  const matchNumbers: number[] = [];
+  courts.forEach((value, i) => {
+    const courtPath = `${path}.courts[${i}]`;
+    const court = expectObject(value, courtPath);
+    expectInteger(court.id, `${courtPath}.id`, 1);
+    if (courtIds.has(court.id)) {
+      throw new InvalidSaveStateError(`${courtPath}.id`, `duplicates court ${court.id}`);
+    }
+    courtIds.add(court.id);
+
+    expectInteger(court.consecutiveWins, `${courtPath}.consecutiveWins`, 0);
+    expectNullable(court.currentCourtTeam, `${courtPath}.currentCourtTeam`, validateTeam);
+    if (court.currentMatch !== null) {
+      validateMatch(court.currentMatch, `${courtPath}.currentMatch`);
+      if (court.currentMatch.courtId !== undefined && court.currentMatch.courtId !== court.id) {
+        throw new InvalidSaveStateError(`${courtPath}.currentMatch.courtId`, `must be ${court.id} (the court it is played on)`);
+      }
+      matchNumbers.push(court.currentMatch.matchNumber);
+    }
+    if (court.mode !== undefined) {
+      expectString(expectObject(court.mode, `${courtPath}.mode`).type, `${courtPath}.mode.type`);
+    }
+    if (court.scoringFormat !== undefined) {
+      validateFormat(court.scoringFormat, `${courtPath}.scoringFormat`);
+    }
+  });
+
+  expectArray(state.queue, `${path}.queue`).forEach((team, i) => validateTeam(team, `${path}.queue[${i}]`));
+  expectArray(state.matchHistory, `${path}.matchHistory`).forEach((result, i) => {
+    validateResult(result, `${path}.matchHistory[${i}]`);
+    matchNumbers.push(result.match.matchNumber);
+  });
+
+  if (state.queueMode !== undefined && state.queueMode !== 'teams' && state.queueMode !== 'players') {
+    throw new InvalidSaveStateError(`${path}.queueMode`, `must be 'teams' or 'players', got ${JSON.stringify(state.queueMode)}`);
+  }
+  if (state.queueMode === 'players' || state.playerQueue !== undefined) {
+    expectArray(state.playerQueue, `${path}.playerQueue`).forEach((player, i) => validatePlayer(player, `${path}.playerQueue[${i}]`));
+  }
+  if (state.pairing !== undefined) {
+    expectString(state.pairing, `${path}.pairing`);
+  }
+  if (state.randomSeed !== undefined) {
+    expectNumber(state.randomSeed, `${path}.randomSeed`);
+  }
+  if (state.pausedTeams !== undefined) {
+    expectArray(state.pausedTeams, `${path}.pausedTeams`).forEach((value, i) => {
+      const entryPath = `${path}.pausedTeams[${i}]`;
+      const entry = expectObject(value, entryPath);
+      validateTeam(entry.team, `${entryPath}.team`);
+      expectNullable(entry.matchesRemaining, `${entryPath}.matchesRemaining`, (remaining, remainingPath) => expectInteger(remaining, remainingPath, 0));
+    });
+  }
+  if (state.waitTimes !== undefined) {
+    for (const [key, value] of Object.entries(expectObject(state.waitTimes, `${path}.waitTimes`))) {
+      const entryPath = `${path}.waitTimes.${key}`;
+      const entry = expectObject(value, entryPath);
+      expectNumber(entry.waitedMs, `${entryPath}.waitedMs`);
+      expectNullable(entry.queuedAt, `${entryPath}.queuedAt`, expectNumber);
+    }
+  }
+
+  return Math.max(0, ...matchNumbers);
+}
+
+/**
+ * Check a recorded match result
+ */
+function validateResult(value: unknown, path: string): asserts value is MatchResult {
+  const result = expectObject(value, path);
+  validateMatch(result.match, `${path}.match`);
+  validateTeam(result.winner, `${path}.winner`);
+  validateTeam(result.loser, `${path}.loser`);
+  expectDate(result.timestamp, `${path}.timestamp`);
+
+  for (const [side, team] of [['winner', result.winner], ['loser', result.loser]] as const) {
+    if (!isMatchTeam(result.match, team)) {
+      throw new InvalidSaveStateError(`${path}.${side}`, 'must be one of the teams of the match');
+    }
+  }
+
+  if (result.courtId !== undefined) {
+    expectInteger(result.courtId, `${path}.courtId`, 1);
+  }
+  if (result.scores !== undefined) {
+    const scores = expectArray(result.scores, `${path}.scores`);
+    if (scores.length !== 2) {
+      throw new InvalidSaveStateError(`${path}.scores`, `must hold 2 scores, got ${scores.length}`);
+    }
+    scores.forEach((value, i) => {
+      const score = expectObject(value, `${path}.scores[${i}]`);
+      validateTeam(score.team, `${path}.scores[${i}].team`);
+      expectInteger(score.score, `${path}.scores[${i}].score`, 0);
+    });
+  }
+  if (result.endedAt !== undefined) {
+    expectDate(result.endedAt, `${path}.endedAt`);
+  }
+  if (result.durationMs !== undefined) {
+    expectNumber(result.durationMs, `${path}.durationMs`);
+  }
+  if (result.previousStreak !== undefined) {
+    const streak = expectObject(result.previousStreak, `${path}.previousStreak`);
+    expectInteger(streak.consecutiveWins, `${path}.previousStreak.consecutiveWins`, 0);
+    expectNullable(streak.courtTeam, `${path}.previousStreak.courtTeam`, validateTeam);
+  }
+  if (result.previousQueue !== undefined) {
+    const queue = expectObject(result.previousQueue, `${path}.previousQueue`);
+    expectArray(queue.pulled, `${path}.previousQueue.pulled`).forEach((value, i) => {
+      const entry = expectObject(value, `${path}.previousQueue.pulled[${i}]`);
+      validateTeam(entry.team, `${path}.previousQueue.pulled[${i}].team`);
+      expectInteger(entry.index, `${path}.previousQueue.pulled[${i}].index`, 0);
+    });
+    expectArray(queue.pausedTeams, `${path}.previousQueue.pausedTeams`).forEach((value, i) => {
+      const entry = expectObject(value, `${path}.previousQueue.pausedTeams[${i}]`);
+      validateTeam(entry.team, `${path}.previousQueue.pausedTeams[${i}].team`);
+      expectInteger(entry.matchesRemaining, `${path}.previousQueue.pausedTeams[${i}].matchesRemaining`, 1);
+    });
+    expectInteger(queue.nextMatchNumber, `${path}.previousQueue.nextMatchNumber`, 1);
+  }
+  if (result.voided !== undefined) {
+    const voided = expectObject(result.voided, `${path}.voided`);
+    expectString(voided.reason, `${path}.voided.reason`);
+    expectDate(voided.at, `${path}.voided.at`);
+    if (typeof voided.rolledBack !== 'boolean') {
+      throw new InvalidSaveStateError(`${path}.voided.rolledBack`, 'must be a boolean');
+    }
+  }
+}
+
+/**
+ * Check a match (on a court or in a result)
+ */
+function validateMatch(value: unknown, path: string): asserts value is Match {
+  const match = expectObject(value, path);
+  validateTeam(match.team1, `${path}.team1`);
+  validateTeam(match.team2, `${path}.team2`);
+  expectInteger(match.matchNumber, `${path}.matchNumber`, 1);
+
+  if (match.courtId !== undefined) {
+    expectInteger(match.courtId, `${path}.courtId`, 1);
+  }
+  if (match.startedAt !== undefined) {
+    expectDate(match.startedAt, `${path}.startedAt`);
+  }
+  if (match.currentScores !== undefined) {
+    const scores = expectObject(match.currentScores, `${path}.currentScores`);
+    expectInteger(scores.team1, `${path}.currentScores.team1`, 0);
+    expectInteger(scores.team2, `${path}.currentScores.team2`, 0);
+  }
+  if (match.sets !== undefined) {
+    expectArray(match.sets, `${path}.sets`).forEach((value, i) => {
+      const set = expectObject(value, `${path}.sets[${i}]`);
+      expectInteger(set.team1, `${path}.sets[${i}].team1`, 0);
+      expectInteger(set.team2, `${path}.sets[${i}].team2`, 0);
+    });
+  }
+  if (match.events !== undefined) {
+    expectArray(match.events, `${path}.events`).forEach((value, i) => {
+      const eventPath = `${path}.events[${i}]`;
+      const event = expectObject(value, eventPath);
+      if (event.type !== 'point' && event.type !== 'side-switch') {
+        throw new InvalidSaveStateError(`${eventPath}.type`, `must be 'point' or 'side-switch', got ${JSON.stringify(event.type)}`);
+      }
+      expectInteger(event.set, `${eventPath}.set`, 0);
+      expectDate(event.timestamp, `${eventPath}.timestamp`);
+    });
+  }
+  if (match.serve !== undefined) {
+    const serve = expectObject(match.serve, `${path}.serve`);
+    if (serve.team !== 1 && serve.team !== 2) {
+      throw new InvalidSaveStateError(`${path}.serve.team`, `must be 1 or 2, got ${JSON.stringify(serve.team)}`);
+    }
+    validatePlayer(serve.player, `${path}.serve.player`);
+  }
+}
+
+/**
+ * Check a team
+ */
+function validateTeam(value: unknown, path: string): asserts value is Team {
+  const team = expectObject(value, path);
+  validatePlayer(team.player1, `${path}.player1`);
+  validatePlayer(team.player2, `${path}.player2`);
+}
+
+/**
+ * Check a player
+ */
+function validatePlayer(value: unknown, path: string): asserts value is Player {
+  const player = expectObject(value, path);
+  expectInteger(player.id, `${path}.id`);
+  expectString(player.name, `${path}.name`);
+  if (player.rating !== undefined) {
+    expectNumber(player.rating, `${path}.rating`);
+  }
+}
+
+/**
+ * Check a scoring format
+ */
+function validateFormat(value: unknown, path: string): void {
+  expectObject(value, path);
+  try {
+    validateScoringFormat(value as ScoringFormat);
+  } catch (error) {
+    if (error instanceof QueueManagementError) {
+      throw new InvalidSaveStateError(path, `is invalid (${error.message})`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check whether a team (compared by player IDs) plays in a match
+ */
+function isMatchTeam(match: Match, team: Team): boolean {
+  return areTeamsEqual(team, match.team1) || areTeamsEqual(team, match.team2);
+}
+
+function isObject(value: unknown): value is SaveObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): SaveObject {
+  if (!isObject(value)) {
+    throw new InvalidSaveStateError(path, `must be an object, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new InvalidSaveStateError(path, `must be an array, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): asserts value is string {
+  if (typeof value !== 'string') {
+    throw new InvalidSaveStateError(path, `must be a string, got ${describe(value)}`);
+  }
+}
+
+function expectBoolean(value: unknown, path: string): asserts value is boolean {
+  if (typeof value !== 'boolean') {
+    throw new InvalidSaveStateError(path, `must be a boolean, got ${describe(value)}`);
+  }
+}
+
+function expectNumber(value: unknown, path: string): asserts value is number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new InvalidSaveStateError(path, `must be a number, got ${describe(value)}`);
+  }
+}
+
+function expectInteger(value: unknown, path: string, min?: number): asserts value is number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || (min !== undefined && value < min)) {
+    const kind = min === undefined ? 'an integer' : min === 0 ? 'a non-negative integer' : `an integer of at least ${min}`;
+    throw new InvalidSaveStateError(path, `must be ${kind}, got ${describe(value)}`);
+  }
+}
+
+function expectDate(value: unknown, path: string): void {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new InvalidSaveStateError(path, `must be an ISO date string, got ${describe(value)}`);
+  }
+}
+
+function expectNullable(value: unknown, path: string, check: (value: unknown, path: string) => void): void {
+  if (value !== null) {
+    check(value, path);
+  }
+}
+
+/**
+ * Short description of an unexpected value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === undefined) {
+    return 'nothing';
+  }
+  const json = JSON.stringify(value);
+  return json.length > 40 ? `${Array.isArray(value) ? 'an array' : typeof value}` : json;
+}
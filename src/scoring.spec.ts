@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateScoringFormat,
+  getGameWinner,
+  checkFinalScore,
+  getSetsToWin,
+  getSetFormat,
+  rotateServe,
+  isSideSwitchDue
+} from './scoring';
+import { InvalidScoringFormatError, ScoringFormat, ServeState } from './types';
+
+describe('Scoring Formats', () => {
+  const to15WinBy2Cap17: ScoringFormat = { target: 15, winBy: 2, cap: 17 };
+
+  describe('validateScoringFormat', () => {
+    it('should accept a valid format', () => {
+      expect(() => validateScoringFormat(to15WinBy2Cap17)).not.toThrow();
+      expect(() => validateScoringFormat({ target: 21 })).not.toThrow();
+    });
+
+    it('should reject invalid targets, margins, caps and time limits', () => {
+      expect(() => validateScoringFormat({ target: 0 })).toThrow(InvalidScoringFormatError);
+      expect(() => validateScoringFormat({ target: 15.5 })).toThrow(InvalidScoringFormatError);
+      expect(() => validateScoringFormat({ target: 15, winBy: 0 })).toThrow(InvalidScoringFormatError);
+      expect(() => validateScoringFormat({ target: 15, cap: 14 })).toThrow(InvalidScoringFormatError);
+      expect(() => validateScoringFormat({ target: 15, timeLimitMinutes: -5 })).toThrow(InvalidScoringFormatError);
+      expect(() => validateScoringFormat({ target: 21, bestOf: 2 })).toThrow(InvalidScoringFormatError);
+      expect(() => validateScoringFormat({ target: 21, bestOf: 3, decidingSetTarget: 0 })).toThrow(InvalidScoringFormatError);
+      expect(() => validateScoringFormat({ target: 21, sideSwitchEvery: 0 })).toThrow(InvalidScoringFormatError);
+    });
+  });
+
+  describe('getGameWinner', () => {
+    it('should detect a game reaching the target with the required margin', () => {
+      expect(getGameWinner(to15WinBy2Cap17, 15, 13)).toBe(1);
+      expect(getGameWinner(to15WinBy2Cap17, 10, 15)).toBe(2);
+    });
+
+    it('should keep playing without the required margin', () => {
+      expect(getGameWinner(to15WinBy2Cap17, 15, 14)).toBeNull();
+      expect(getGameWinner(to15WinBy2Cap17, 14, 14)).toBeNull();
+      expect(getGameWinner(to15WinBy2Cap17, 14, 10)).toBeNull();
+    });
+
+    it('should end the game at the cap regardless of margin', () => {
+      expect(getGameWinner(to15WinBy2Cap17, 17, 16)).toBe(1);
+    });
+
+    it('should default to a win-by margin of 1', () => {
+      expect(getGameWinner({ target: 21 }, 21, 20)).toBe(1);
+    });
+  });
+
+  describe('checkFinalScore', () => {
+    it('should accept legal final scores', () => {
+      expect(checkFinalScore(to15WinBy2Cap17, 15, 0)).toBeNull();
+      expect(checkFinalScore(to15WinBy2Cap17, 15, 13)).toBeNull();
+      expect(checkFinalScore(to15WinBy2Cap17, 16, 14)).toBeNull();
+      expect(checkFinalScore(to15WinBy2Cap17, 17, 16)).toBeNull();
+    });
+
+    it('should flag unfinished games', () => {
+      expect(checkFinalScore(to15WinBy2Cap17, 15, 14)).toContain('does not finish');
+      expect(checkFinalScore(to15WinBy2Cap17, 12, 10)).toContain('does not finish');
+    });
+
+    it('should flag scores past the end of the game', () => {
+      expect(checkFinalScore(to15WinBy2Cap17, 16, 10)).toContain('already over');
+      expect(checkFinalScore(to15WinBy2Cap17, 18, 16)).toContain('exceeds the cap');
+    });
+
+    it('should accept games stopped early when there is a time limit', () => {
+      const timed: ScoringFormat = { ...to15WinBy2Cap17, timeLimitMinutes: 20 };
+
+      expect(checkFinalScore(timed, 12, 10)).toBeNull();
+      expect(checkFinalScore(timed, 11, 11)).toBeNull();
+      expect(checkFinalScore(timed, 16, 10)).toContain('already over');
+    });
+  });
+
+  describe('sets', () => {
+    it('should compute the sets needed to win a match', () => {
+      expect(getSetsToWin(null)).toBe(1);
+      expect(getSetsToWin({ target: 21 })).toBe(1);
+      expect(getSetsToWin({ target: 21, bestOf: 3 })).toBe(2);
+      expect(getSetsToWin({ target: 21, bestOf: 5 })).toBe(3);
+    });
+
+    it('should use the deciding set target without a cap for the last set only', () => {
+      const format: ScoringFormat = { target: 21, winBy: 2, cap: 25, bestOf: 3, decidingSetTarget: 15 };
+
+      expect(getSetFormat(format, 0)).toBe(format);
+      expect(getSetFormat(format, 1)).toBe(format);
+      expect(getSetFormat(format, 2)).toEqual({ ...format, target: 15, cap: undefined });
+    });
+  });
+
+  describe('serve and side switches', () => {
+    const team1 = { player1: { id: 1, name: 'Alice' }, player2: { id: 2, name: 'Bob' } };
+    const team2 = { player1: { id: 3, name: 'Charlie' }, player2: { id: 4, name: 'Diana' } };
+    const serve: ServeState = {
+      team: 1,
+      player: team1.player1,
+      lastServer: { team1: team1.player1, team2: team2.player1 }
+    };
+
+    it('should keep the serve when the serving team wins the rally', () => {
+      expect(rotateServe(serve, 1, team1)).toBe(serve);
+    });
+
+    it('should hand the serve to the other player of the receiving team on side-out', () => {
+      const next = rotateServe(serve, 2, team2);
+
+      expect(next.team).toBe(2);
+      expect(next.player).toEqual(team2.player2);
+      expect(next.lastServer.team2).toEqual(team2.player2);
+    });
+
+    it('should detect side switches when the total crosses a multiple of the interval', () => {
+      const format: ScoringFormat = { target: 21, sideSwitchEvery: 7 };
+
+      expect(isSideSwitchDue(format, 6, 7)).toBe(true);
+      expect(isSideSwitchDue(format, 7, 8)).toBe(false);
+      expect(isSideSwitchDue(format, 8, 7)).toBe(false);
+      expect(isSideSwitchDue({ target: 21 }, 6, 7)).toBe(false);
+    });
+  });
+});
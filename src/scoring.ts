@@ -0,0 +1,149 @@
+import { type ScoringFormat, type ServeState, type Team, InvalidScoringFormatError } from './types';
+
+/**
+ * Validate a scoring format
+ * @throws {InvalidScoringFormatError} if target, winBy, cap or timeLimitMinutes are inconsistent
+ */
+export function validateScoringFormat(format: ScoringFormat): void {
+  const { target, winBy = 1, cap, timeLimitMinutes, bestOf = 1, decidingSetTarget, sideSwitchEvery } = format;
+
+  if (!Number.isInteger(target) || target < 1) {
+    throw new InvalidScoringFormatError(`Invalid target: ${target}. Target must be a positive integer`);
+  }
+
+  if (!Number.isInteger(winBy) || winBy < 1) {
+    throw new InvalidScoringFormatError(`Invalid winBy: ${winBy}. Win-by margin must be a positive integer`);
+  }
+
+  if (cap !== undefined && (!Number.isInteger(cap) || cap < target)) {
+    throw new InvalidScoringFormatError(`Invalid cap: ${cap}. Cap must be an integer not lower than the target (${target})`);
+  }
+
+  if (timeLimitMinutes !== undefined && (!Number.isFinite(timeLimitMinutes) || timeLimitMinutes <= 0)) {
+    throw new InvalidScoringFormatError(`Invalid timeLimitMinutes: ${timeLimitMinutes}. Time limit must be a positive number`);
+  }
+
+  if (!Number.isInteger(bestOf) || bestOf < 1 || bestOf % 2 === 0) {
+    throw new InvalidScoringFormatError(`Invalid bestOf: ${bestOf}. Number of sets must be a positive odd integer`);
+  }
+
+  if (decidingSetTarget !== undefined && (!Number.isInteger(decidingSetTarget) || decidingSetTarget < 1)) {
+    throw new InvalidScoringFormatError(`Invalid decidingSetTarget: ${decidingSetTarget}. Target must be a positive integer`);
+  }
+
+  if (sideSwitchEvery !== undefined && (!Number.isInteger(sideSwitchEvery) || sideSwitchEvery < 1)) {
+    throw new InvalidScoringFormatError(`Invalid sideSwitchEvery: ${sideSwitchEvery}. Side switch interval must be a positive integer`);
+  }
+}
+
+/**
+ * Get the number of sets a team must win to take a match
+ */
+export function getSetsToWin(format: ScoringFormat | null): number {
+  return Math.floor((format?.bestOf ?? 1) / 2) + 1;
+}
+
+/**
+ * Get the scoring format of a given set (the deciding set may use its own target and has no cap)
+ * @param setIndex - Index of the set in the match (0-based)
+ */
+export function getSetFormat(format: ScoringFormat, setIndex: number): ScoringFormat {
+  const bestOf = format.bestOf ?? 1;
+  if (bestOf > 1 && setIndex === bestOf - 1 && format.decidingSetTarget !== undefined) {
+    return { ...format, target: format.decidingSetTarget, cap: undefined };
+  }
+  return format;
+}
+
+/**
+ * Determine whether a game has reached a legal end state
+ * @returns 1 or 2 for the team that has won the game, or null if the game is still running
+ */
+export function getGameWinner(format: ScoringFormat, team1Score: number, team2Score: number): 1 | 2 | null {
+  const { target, winBy = 1, cap } = format;
+  const leader: 1 | 2 = team1Score > team2Score ? 1 : 2;
+  const high = Math.max(team1Score, team2Score);
+  const low = Math.min(team1Score, team2Score);
+
+  if (high === low) {
+    return null;
+  }
+
+  if (cap !== undefined && high >= cap) {
+    return leader;
+  }
+
+  if (high >= target && high - low >= winBy) {
+    return leader;
+  }
+
+  return null;
+}
+
+/**
+ * Check that a final score is possible under a scoring format
+ * A game ends on the point that decides it, so the winner's previous score must not already have ended it.
+ * With a time limit, games may also stop before reaching the target (ties included).
+ * @returns A description of the problem, or null if the score is a legal final score
+ */
+export function checkFinalScore(format: ScoringFormat, winnerScore: number, loserScore: number): string | null {
+  const { target, winBy = 1, cap, timeLimitMinutes } = format;
+  const describe = `${winnerScore}-${loserScore}`;
+
+  if (winnerScore < loserScore) {
+    return `Winner score is lower than loser score (${describe})`;
+  }
+
+  if (cap !== undefined && winnerScore > cap) {
+    return `Score ${describe} exceeds the cap of ${cap}`;
+  }
+
+  if (getGameWinner(format, winnerScore, loserScore) === null) {
+    if (timeLimitMinutes !== undefined) {
+      return null;
+    }
+    return `Score ${describe} does not finish a game to ${target} (win by ${winBy}${cap !== undefined ? `, cap ${cap}` : ''})`;
+  }
+
+  if (getGameWinner(format, winnerScore - 1, loserScore) !== null) {
+    return `Score ${describe} is impossible: the game was already over at ${winnerScore - 1}-${loserScore}`;
+  }
+
+  return null;
+}
+
+/**
+ * Compute the serve state after a rally (rally scoring)
+ * The serving team keeps the serve when it wins the rally. On a side-out, the receiving team
+ * serves with the player who did not serve last time it had the serve (player1 the first time).
+ * @param serve - Serve state before the rally
+ * @param rallyWinner - Team that won the rally (1 or 2)
+ * @param winningTeam - The team that won the rally
+ */
+export function rotateServe(serve: ServeState, rallyWinner: 1 | 2, winningTeam: Team): ServeState {
+  if (serve.team === rallyWinner) {
+    return serve;
+  }
+
+  const key = rallyWinner === 1 ? 'team1' : 'team2';
+  const last = serve.lastServer[key];
+  const player = last && last.id === winningTeam.player1.id ? winningTeam.player2 : winningTeam.player1;
+
+  return {
+    team: rallyWinner,
+    player,
+    lastServer: { ...serve.lastServer, [key]: player }
+  };
+}
+
+/**
+ * Check whether teams switch sides between two scores of the same set
+ * @returns true if the total number of points crossed a multiple of sideSwitchEvery
+ */
+export function isSideSwitchDue(format: ScoringFormat, previousTotal: number, total: number): boolean {
+  const every = format.sideSwitchEvery;
+  if (!every || total <= previousTotal) {
+    return false;
+  }
+  return Math.floor(total / every) > Math.floor(previousTotal / every);
+}
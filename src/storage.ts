@@ -0,0 +1,75 @@
+import { open, readFile, rename, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { type StorageAdapter } from './types';
+
+/**
+ * Storage adapter that keeps the saved state in memory (for tests, or as a cache in front of another store)
+ * @param initialState - State returned by load() before the first save
+ */
+export function createMemoryStorage(initialState: string | null = null): StorageAdapter {
+  let savedState = initialState;
+  return {
+    load: async () => savedState,
+    save: async state => {
+      savedState = state;
+    }
+  };
+}
+
+/**
+ * Storage adapter that keeps the saved state in a JSON file
+ * Each save is written to a temporary file next to the target, flushed to disk and renamed over
+ * the target, so a crash mid-write leaves the previous save intact instead of a truncated file.
+ * @param filePath - Path of the save file (created on the first save)
+ */
+export function createFileStorage(filePath: string): StorageAdapter {
+  let writes = 0;
+
+  return {
+    load: async () => {
+      try {
+        return await readFile(filePath, 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    save: async savedState => {
+      const tempPath = `${filePath}.${process.pid}.${++writes}.tmp`;
+      try {
+        const file = await open(tempPath, 'w');
+        try {
+          await file.writeFile(savedState, 'utf8');
+          await file.sync();
+        } finally {
+          await file.close();
+        }
+        await rename(tempPath, filePath);
+      } catch (error) {
+        await unlink(tempPath).catch(() => {});
+        throw error;
+      }
+      await syncDirectory(dirname(filePath));
+    }
+  };
+}
+
+/**
+ * Flush a directory entry to disk so a rename survives a power loss
+ * Not supported on every platform (e.g. Windows), where the rename is left to the OS.
+ */
+async function syncDirectory(path: string): Promise<void> {
+  try {
+    const directory = await open(path, 'r');
+    try {
+      await directory.sync();
+    } finally {
+      await directory.close();
+    }
+  } catch {
+    // Best effort: the file itself is already complete
+  }
+}
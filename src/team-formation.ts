@@ -0,0 +1,78 @@
+import { type Player, type Team, type PairingStrategy } from './types';
+
+/**
+ * Information used to pair players into teams
+ */
+export interface PairingContext {
+  /** Number of times two players have already played together */
+  timesPartnered: (a: Player, b: Player) => number;
+  /** Skill rating of a player (higher is stronger) */
+  getRating: (player: Player) => number;
+  /** Random number in [0, 1) */
+  random: () => number;
+}
+
+/**
+ * Pair players into teams
+ * Two players always form a single team. Four players are split into two teams:
+ * - 'random': shuffled, then paired in order
+ * - 'rotating': the split whose partners have played together the least (queue order breaks ties)
+ * - 'balanced': strongest with weakest, middle two together
+ * @param players - 2 or 4 players, in queue order
+ */
+export function formTeams(players: Player[], strategy: PairingStrategy, context: PairingContext): Team[] {
+  if (players.length === 2) {
+    return [{ player1: players[0], player2: players[1] }];
+  }
+
+  if (players.length !== 4) {
+    throw new Error(`Cannot form teams from ${players.length} players`);
+  }
+
+  let [a, b, c, d] = players;
+
+  if (strategy === 'random') {
+    [a, b, c, d] = shuffle(players, context.random);
+  } else if (strategy === 'rotating') {
+    const splits: [Player, Player, Player, Player][] = [
+      [a, b, c, d],
+      [a, c, b, d],
+      [a, d, b, c]
+    ];
+    const cost = ([p1, p2, p3, p4]: Player[]) => context.timesPartnered(p1, p2) + context.timesPartnered(p3, p4);
+    [a, b, c, d] = splits.reduce((best, split) => (cost(split) < cost(best) ? split : best));
+  } else {
+    const sorted = [...players].sort((x, y) => context.getRating(y) - context.getRating(x));
+    [a, b, c, d] = [sorted[0], sorted[3], sorted[1], sorted[2]];
+  }
+
+  return [
+    { player1: a, player2: b },
+    { player1: c, player2: d }
+  ];
+}
+
+/**
+ * Shuffle a list (Fisher-Yates) without modifying it
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ * The seed is part of the saved state so that random pairings survive undo, save and load.
+ * @returns A random number in [0, 1) and the next seed
+ */
+export function nextRandom(seed: number): [number, number] {
+  const nextSeed = (seed + 0x6d2b79f5) | 0;
+  let t = nextSeed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, nextSeed];
+}
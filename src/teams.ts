@@ -0,0 +1,12 @@
+import { type Team } from './types';
+
+/**
+ * Compare two teams for equality (order-independent)
+ * Teams are equal if they contain the same players regardless of order
+ */
+export function areTeamsEqual(team1: Team, team2: Team): boolean {
+  const team1Ids = [team1.player1.id, team1.player2.id].sort();
+  const team2Ids = [team2.player1.id, team2.player2.id].sort();
+  
+  return team1Ids[0] === team2Ids[0] && team1Ids[1] === team2Ids[1];
+}
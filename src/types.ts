@@ -4,6 +4,8 @@
 export interface Player {
   id: number;
   name: string;
+  /** Optional skill rating, used to balance automatically formed teams */
+  rating?: number;
 }
 
 /**
@@ -22,6 +24,107 @@ export interface Score {
   score: number;
 }
 
+/**
+ * Scoring rules for a game (e.g. first to 15, win by 2, cap at 17)
+ */
+export interface ScoringFormat {
+  /** Points needed to win */
+  target: number;
+  /** Required winning margin (defaults to 1) */
+  winBy?: number;
+  /** Hard cap: the first team to reach it wins regardless of margin */
+  cap?: number;
+  /** Optional time limit; when set, a game may end before reaching the target */
+  timeLimitMinutes?: number;
+  /** Number of sets in a match (odd, defaults to 1) */
+  bestOf?: number;
+  /** Target of the deciding set (e.g. 15 in a best-of-3 to 21); the deciding set has no cap */
+  decidingSetTarget?: number;
+  /** Teams switch sides every N points of a set (e.g. 7 in a game to 21) */
+  sideSwitchEvery?: number;
+}
+
+/**
+ * Score of a single set, aligned with Match.team1/Match.team2
+ */
+export interface SetScore {
+  team1: number;
+  team2: number;
+}
+
+/**
+ * Final score of a match, aligned with Match.team1/Match.team2
+ */
+export interface MatchScoreInput {
+  team1Score: number;
+  team2Score: number;
+  /** Winner of a tied score (e.g. decided by a tie-break rally) */
+  tieBreakWinner?: 1 | 2;
+}
+
+/**
+ * Serve tracking state of a match
+ */
+export interface ServeState {
+  /** Team serving the next rally */
+  team: 1 | 2;
+  /** Player serving the next rally */
+  player: Player;
+  /** Last player to serve for each team, used to alternate servers when a team regains the serve */
+  lastServer: {
+    team1: Player | null;
+    team2: Player | null;
+  };
+}
+
+/**
+ * Who serves the next rally, and who would serve after a side-out
+ */
+export interface ServeInfo {
+  team: 1 | 2;
+  player: Player;
+  sideOut: {
+    team: 1 | 2;
+    player: Player;
+  };
+}
+
+/**
+ * A rally won during live scoring
+ */
+export interface PointEvent {
+  type: 'point';
+  /** Team whose score changed */
+  team: 1 | 2;
+  /** Change applied to the score (negative for corrections) */
+  delta: number;
+  /** Index of the set the point belongs to (0-based) */
+  set: number;
+  timestamp: Date;
+  /** Serve state before the rally, when serves are tracked */
+  serveBefore?: ServeState;
+}
+
+/**
+ * Teams switched sides during live scoring
+ */
+export interface SideSwitchEvent {
+  type: 'side-switch';
+  /** Index of the set (0-based) */
+  set: number;
+  /** Score of the set at the switch */
+  score: {
+    team1: number;
+    team2: number;
+  };
+  timestamp: Date;
+}
+
+/**
+ * Event recorded on a match during live scoring
+ */
+export type MatchEvent = PointEvent | SideSwitchEvent;
+
 /**
  * Represents a match between two teams
  */
@@ -30,10 +133,18 @@ export interface Match {
   team2: Team;
   matchNumber: number;
   courtId?: number;
+  /** When the match was placed on its court */
+  startedAt?: Date;
   currentScores?: {
     team1: number;
     team2: number;
   };
+  /** Completed sets of a best-of-N match */
+  sets?: SetScore[];
+  /** Live scoring log, in order */
+  events?: MatchEvent[];
+  /** Serve tracking, once a server has been set */
+  serve?: ServeState;
 }
 
 /**
@@ -46,6 +157,39 @@ export interface MatchResult {
   timestamp: Date;
   courtId?: number;
   scores?: [Score, Score];
+  /** When the match ended (the moment its result was recorded) */
+  endedAt?: Date;
+  /** Time between the match start and end, in milliseconds */
+  durationMs?: number;
+  /** Winning streak on the court before this result, used to roll the result back */
+  previousStreak?: { consecutiveWins: number; courtTeam: Team | null };
+  /**
+   * Queue positions (before the result) of the teams pulled onto the court, the timed pauses the
+   * result counted down (as they were before) and the number of the match it started, used to roll
+   * the result back
+   */
+  previousQueue?: { pulled: { team: Team; index: number }[]; pausedTeams: PausedTeam[]; nextMatchNumber: number };
+  /** Set when the result was voided: it stays in the history but no longer counts */
+  voided?: VoidInfo;
+}
+
+/**
+ * Audit trail of a voided match result
+ */
+export interface VoidInfo {
+  reason: string;
+  /** When the result was voided */
+  at: Date;
+  /** Whether the court and queue were rolled back to before the result */
+  rolledBack: boolean;
+}
+
+/**
+ * Options for voiding a match result
+ */
+export interface VoidMatchOptions {
+  /** Also undo the result's effects on the court and queue (only for the most recent result on its court) */
+  rollback?: boolean;
 }
 
 /**
@@ -56,6 +200,10 @@ export interface Court {
   currentMatch: Match | null;
   consecutiveWins: number;
   currentCourtTeam: Team | null;
+  /** Game mode of this court; falls back to the manager's rotation policy when not set */
+  mode?: RotationPolicyConfig;
+  /** Scoring format of this court; falls back to the session scoring format when not set */
+  scoringFormat?: ScoringFormat;
 }
 
 /**
@@ -67,6 +215,152 @@ export interface TeamStatistics {
   losses: number;
   totalPoints: number;
   pointsAgainst: number;
+  /** Sets won (a match played as a single game counts as one set) */
+  setsWon: number;
+  setsLost: number;
+  /** Total duration of the team's matches, in milliseconds */
+  timeOnCourtMs: number;
+}
+
+/**
+ * Represents court statistics for a session
+ */
+export interface CourtStatistics {
+  courtId: number;
+  matchesPlayed: number;
+  /** Total duration of the court's recorded matches, in milliseconds */
+  totalDurationMs: number;
+  /** Average match duration, in milliseconds (null until a match with a known duration is recorded) */
+  averageDurationMs: number | null;
+}
+
+/**
+ * Represents a player's record with one partner
+ */
+export interface PartnerStatistics {
+  partner: Player;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+/**
+ * Represents player statistics for a session, across all partners
+ */
+export interface PlayerStatistics {
+  player: Player;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  /** Wins divided by games played (0 to 1) */
+  winRate: number;
+  /** Breakdown per partner, sorted by games played (descending) */
+  partners: PartnerStatistics[];
+}
+
+/**
+ * Settings of the Elo-style rating model
+ */
+export interface RatingOptions {
+  /** Rating of players without a `rating` of their own. Defaults to 1500. */
+  initialRating?: number;
+  /** Maximum rating change per match (before margin weighting). Defaults to 32. */
+  kFactor?: number;
+  /** Scale rating changes by the score margin (bigger wins move ratings more). Defaults to false. */
+  marginWeighted?: boolean;
+}
+
+/**
+ * Rating of a player after one of their matches
+ */
+export interface RatingHistoryEntry {
+  matchNumber: number;
+  courtId?: number;
+  timestamp: Date;
+  /** Rating after the match */
+  rating: number;
+  /** Rating change caused by the match */
+  delta: number;
+}
+
+/**
+ * A player's current rating, as listed on the leaderboard
+ */
+export interface PlayerRating {
+  player: Player;
+  rating: number;
+  gamesPlayed: number;
+  /** Rating after each match of the session, in play order */
+  history: RatingHistoryEntry[];
+}
+
+/**
+ * What the shared queue holds: fixed teams, or individual players paired automatically
+ */
+export type QueueMode = 'teams' | 'players';
+
+/**
+ * How waiting players are paired into teams in individual-player mode
+ */
+export type PairingStrategy = 'random' | 'rotating' | 'balanced';
+
+/**
+ * Where teams joining the back of the queue (new arrivals and teams leaving a court) are placed
+ * - 'append': at the end of the queue
+ * - 'games-played': ahead of every team that has played more games
+ * - 'wait-time': ahead of every team that has waited less in total
+ * - 'after-next': right after the next `teams` teams
+ */
+export type InsertionPolicy =
+  | { type: 'append' }
+  | { type: 'games-played' }
+  | { type: 'wait-time' }
+  | { type: 'after-next'; teams: number };
+
+/**
+ * Time a team has spent in the queue
+ */
+export interface WaitTime {
+  /** Total time waited in previous stays in the queue (milliseconds) */
+  waitedMs: number;
+  /** When the team last joined the queue (epoch milliseconds), or null if it is not waiting */
+  queuedAt: number | null;
+}
+
+/**
+ * A team taking a break: it keeps its place in the queue but is skipped when opponents are pulled
+ */
+export interface PausedTeam {
+  team: Team;
+  /** Recorded matches left before the team resumes automatically (null = until resumed manually) */
+  matchesRemaining: number | null;
+}
+
+/**
+ * Forecast of when a queued team will play
+ */
+export interface QueueForecastEntry {
+  team: Team;
+  /** Position of the team in the queue (0 = next) */
+  position: number;
+  /** Matches that finish before the team plays, or null if it cannot be predicted (e.g. paused until resumed) */
+  matchesAhead: number | null;
+  /** Court the team is expected to play on */
+  courtId: number | null;
+  /** Estimated start of the team's next match, or null without an average match duration */
+  estimatedStart: Date | null;
+}
+
+/**
+ * Settings for a queue forecast
+ */
+export interface QueueForecastOptions {
+  /** Average match duration in minutes (default: measured from the match history) */
+  averageMatchMinutes?: number;
 }
 
 /**
@@ -76,6 +370,352 @@ export interface SystemState {
   courts: Court[];
   queue: Team[];
   matchHistory: MatchResult[];
+  /** Queue mode (defaults to 'teams') */
+  queueMode?: QueueMode;
+  /** Waiting players, in order (individual-player mode only) */
+  playerQueue?: Player[];
+  /** Pairing strategy (individual-player mode only) */
+  pairing?: PairingStrategy;
+  /** Seed of the random generator used for random pairings */
+  randomSeed?: number;
+  /** Teams in the queue that are taking a break */
+  pausedTeams?: PausedTeam[];
+  /** Queue wait tracking, keyed by team (sorted player IDs, e.g. "1-2") */
+  waitTimes?: Record<string, WaitTime>;
+}
+
+/**
+ * Built-in game modes (rotation policy types)
+ */
+export type GameMode = 'winner-stays' | 'everyone-rotates' | 'king-of-the-court' | 'challenger-court';
+
+/**
+ * Serializable description of a rotation policy (used for persistence)
+ */
+export interface RotationPolicyConfig {
+  type: string;
+  options?: Record<string, unknown>;
+}
+
+/**
+ * Information handed to a rotation policy after a match on a court
+ */
+export interface RotationContext {
+  courtId: number;
+  winner: Team;
+  loser: Team;
+  /** Consecutive wins of the winner on this court, including the match just played */
+  consecutiveWins: number;
+  /** Number of teams waiting in the shared queue before anyone returns to it */
+  queueLength: number;
+}
+
+/**
+ * Decision taken by a rotation policy after a match
+ */
+export interface RotationDecision {
+  /** Team that stays on court (must be the winner), or null if both teams leave */
+  stays: Team | null;
+  /** Teams inserted at the head of the queue, in order */
+  toQueueFront: Team[];
+  /** Teams appended to the end of the queue, in order */
+  toQueueBack: Team[];
+}
+
+/**
+ * Decides who stays on court and who goes back to the queue after each match
+ */
+export interface RotationPolicy {
+  type: string;
+  options: Record<string, unknown>;
+  decide(context: RotationContext): RotationDecision;
+}
+
+/**
+ * Where the teams of a closed court go in the queue
+ */
+export interface CloseCourtOptions {
+  /** 'front' (default) gives the interrupted teams priority, 'back' sends them to the end of the queue */
+  returnTo?: 'front' | 'back';
+}
+
+/**
+ * Receives the QueueManager's human-readable progress messages
+ */
+export interface Logger {
+  log(message: string): void;
+}
+
+/**
+ * Events emitted by a QueueManager, with their payloads
+ */
+export interface QueueManagerEvents {
+  /** A match was placed on a court */
+  matchStarted: { courtId: number; match: Match };
+  /** A match result was recorded */
+  resultRecorded: { courtId: number; result: MatchResult };
+  /** A recorded result was edited */
+  resultEdited: { matchIndex: number; result: MatchResult };
+  /** A recorded result was voided */
+  resultVoided: { matchIndex: number; result: MatchResult };
+  /**
+   * The winner of a match reached the streak its court's rotation policy allows and was sent off court
+   * (e.g. maxConsecutiveWins of winner-stays or challenger-court; never with king-of-the-court)
+   */
+  courtStreakReached: { courtId: number; team: Team; consecutiveWins: number };
+  /** Teams (or players) were added to, removed from, reordered in, paused or resumed in the queue */
+  queueChanged: { queue: Team[]; playerQueue?: Player[] };
+  /** The live score of a match changed */
+  scoreChanged: { courtId: number; scores: { team1: number; team2: number } };
+  /** A court was opened during the session */
+  courtOpened: { courtId: number };
+  /** A court was closed during the session */
+  courtClosed: { courtId: number };
+  /** The whole state was replaced by undo, redo, loadState or a retroactive result correction */
+  stateRestored: { source: 'undo' | 'redo' | 'load' | 'correction' };
+  /** The state was written to the autosave storage */
+  autosaved: { savedState: string };
+  /** Writing to the autosave storage failed (the next change retries) */
+  autosaveFailed: { error: unknown };
+}
+
+/**
+ * Name of a QueueManager event
+ */
+export type QueueManagerEventName = keyof QueueManagerEvents;
+
+/**
+ * Listener of a QueueManager event
+ */
+export type QueueManagerEventListener<K extends QueueManagerEventName> = (payload: QueueManagerEvents[K]) => void;
+
+/**
+ * A state-changing call recorded in the session log (arguments as they were passed)
+ */
+export type SessionCommand = { at: number } & (
+  | { type: 'initialize'; teams: Team[] }
+  | { type: 'initializePlayers'; players: Player[]; pairing?: PairingStrategy; seed: number }
+  | { type: 'addTeams'; teams: Team[]; policy: InsertionPolicy }
+  | { type: 'addPlayers'; players: Player[] }
+  | { type: 'recordResult'; courtId: number; scores: MatchScoreInput | Record<number, Team> }
+  | { type: 'recordSetResult'; courtId: number; scores: MatchScoreInput }
+  | { type: 'updateScore'; courtId: number; teamIndex: 1 | 2; delta: number }
+  | { type: 'undoLastPoint'; courtId: number }
+  | { type: 'setServer'; courtId: number; teamIndex: 1 | 2; player?: Player }
+  | { type: 'reorderTeamInQueue'; fromIndex: number; toIndex: number }
+  | { type: 'editMatchResult'; matchIndex: number; scores: [Score, Score] }
+  | {
+      type: 'correctMatchResult';
+      matchIndex: number;
+      scores: [Score, Score];
+      /** Outcome of the correction, so replays don't recompute it (missing in logs from older versions) */
+      corrected?: CorrectionOutcome;
+    }
+  | { type: 'voidMatch'; matchIndex: number; reason: string; options: VoidMatchOptions }
+  | { type: 'setRotationPolicy'; policy: RotationPolicyConfig }
+  | { type: 'setCourtMode'; courtId: number; mode: GameMode | null; options: Record<string, unknown> }
+  | { type: 'setScoringFormat'; format: ScoringFormat | null }
+  | { type: 'setCourtScoringFormat'; courtId: number; format: ScoringFormat | null }
+  | { type: 'setInsertionPolicy'; policy: InsertionPolicy }
+  | { type: 'addCourt' }
+  | { type: 'closeCourt'; courtId: number; options: CloseCourtOptions }
+  | { type: 'removeTeam'; team: Team }
+  | { type: 'substitutePlayer'; team: Team; oldPlayer: Player; newPlayer: Player }
+  | { type: 'pauseTeam'; team: Team; matches?: number }
+  | { type: 'resumeTeam'; team: Team }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'revertTo'; entryId: number }
+  | { type: 'setActor'; actor: string | null }
+  | { type: 'batch'; description: string; commands: SessionCommand[] }
+  | { type: 'loadState'; savedState: string }
+);
+
+/**
+ * Settings a QueueManager was created with, needed to replay its session
+ */
+export interface SessionConfig {
+  numberOfCourts: number;
+  maxHistorySize: number;
+  rotationPolicy: RotationPolicyConfig;
+  scoringFormat: ScoringFormat | null;
+  autoFinish: boolean;
+  rating: Required<RatingOptions>;
+  insertionPolicy: InsertionPolicy;
+}
+
+/**
+ * Ordered log of every state-changing call of a session
+ */
+export interface SessionLog {
+  config: SessionConfig;
+  commands: SessionCommand[];
+}
+
+/**
+ * A later match whose teams differ from the teams the corrected queue puts on court
+ */
+export interface InconsistentMatch {
+  /** Match number in the session before the correction */
+  matchNumber: number;
+  courtId: number;
+  /** Teams that actually played (team1, team2) */
+  played: [Team, Team];
+  /** Teams that should have been on court after the correction (team1, team2), or null if the court has no match */
+  expected: [Team, Team] | null;
+}
+
+/**
+ * A later call that could not be applied after a correction (e.g. pausing a team that is now on court)
+ */
+export interface SkippedCommand {
+  command: SessionCommand;
+  reason: string;
+}
+
+/**
+ * Logged outcome of a retroactive result correction
+ */
+export interface CorrectionOutcome {
+  /** State after the correction */
+  state: SystemState;
+  matchCounter: number;
+  /** The logged call the correction rewrote (for a batch, the index of the call in it) */
+  origin: { index: number; inner: number | null };
+}
+
+/**
+ * Outcome of a retroactive result correction
+ */
+export interface CorrectionReport {
+  /** The corrected result */
+  result: MatchResult;
+  /** Later matches (including matches in progress) played by other teams than the corrected queue expects */
+  inconsistentMatches: InconsistentMatch[];
+  /** Later calls that failed against the corrected state and were left out */
+  skippedCommands: SkippedCommand[];
+}
+
+/**
+ * Options for a retroactive result correction
+ */
+export interface CorrectionOptions {
+  /** Only report the consequences of the correction, without applying it */
+  dryRun?: boolean;
+}
+
+/**
+ * A step of the undo/redo timeline
+ */
+export interface UndoEntry {
+  /** Identifies the step for revertTo() */
+  id: number;
+  /** The change the step undoes or redoes, e.g. "Result on court 2 (15-12)" */
+  description: string;
+  /** Who made the change (see setActor()), or null if not set */
+  actor: string | null;
+  /** When the change was made, or null for steps saved before steps were labelled */
+  timestamp: Date | null;
+}
+
+/**
+ * The undo/redo timeline of a QueueManager
+ */
+export interface UndoTimeline {
+  /** Changes undo() reverts, most recent first */
+  undo: UndoEntry[];
+  /** Changes redo() reapplies, next first */
+  redo: UndoEntry[];
+}
+
+/**
+ * Undo/redo step as written by saveState()
+ */
+export interface SavedHistoryEntry {
+  info: UndoEntry;
+  /** State of the step without its match history */
+  state: Omit<SystemState, 'matchHistory'>;
+  matchCounter: number;
+  /** Match history of the step, as a diff against the next newer step (the current state for the most recent one) */
+  history: {
+    /** Number of results in the step's match history */
+    length: number;
+    /** Results that differ from the newer step, keyed by index in the history */
+    changed: Record<number, MatchResult>;
+  };
+}
+
+/**
+ * Contents of a saveState() string (dates are ISO strings once serialized)
+ */
+export interface SaveData {
+  /** Save format version (saves without one are version 1) */
+  version: number;
+  state: SystemState;
+  matchCounter: number;
+  rotationPolicy?: RotationPolicyConfig;
+  scoringFormat?: ScoringFormat | null;
+  autoFinish?: boolean;
+  rating?: RatingOptions;
+  insertionPolicy?: InsertionPolicy;
+  /** Undo/redo steps, oldest first (see SavedHistoryEntry) */
+  undoStack: SavedHistoryEntry[];
+  redoStack: SavedHistoryEntry[];
+  /** ID of the most recently created undo step (0 if none), so step IDs stay unique after loading */
+  lastUndoEntryId: number;
+  sessionLog?: SessionLog;
+}
+
+/**
+ * Options for replaying a session log
+ */
+export interface ReplayOptions {
+  /** Stop before the first command issued after this time */
+  until?: Date;
+  /** Logger of the rebuilt manager (default: silent) */
+  logger?: Logger;
+  /** Clock of the rebuilt manager once the replay is done (default: Date.now) */
+  clock?: () => number;
+}
+
+/**
+ * Optional settings for a QueueManager
+ */
+export interface QueueManagerOptions {
+  rotationPolicy?: RotationPolicy;
+  /** Session-wide scoring format used to validate results */
+  scoringFormat?: ScoringFormat;
+  /** Record the result automatically when a live score reaches a legal end state (requires a scoring format) */
+  autoFinish?: boolean;
+  /** Settings of the Elo-style player rating model */
+  rating?: RatingOptions;
+  /** Where teams joining the back of the queue are placed (default: { type: 'append' }) */
+  insertionPolicy?: InsertionPolicy;
+  /** Receives progress messages (default: silent) */
+  logger?: Logger;
+  /** Current time in epoch milliseconds (default: Date.now) */
+  clock?: () => number;
+  /** Save the state to a storage adapter after every state-changing call */
+  autosave?: AutosaveOptions;
+}
+
+/**
+ * Place where saveState() output is kept between sessions
+ */
+export interface StorageAdapter {
+  /** Read the last saved state, or null if nothing was saved yet */
+  load(): Promise<string | null>;
+  /** Replace the saved state (must not leave a partial save behind if it fails) */
+  save(savedState: string): Promise<void>;
+}
+
+/**
+ * Autosave settings of a QueueManager
+ */
+export interface AutosaveOptions {
+  storage: StorageAdapter;
+  /** Time to wait after a change before writing, so a burst of calls is written once (milliseconds, default: 500) */
+  debounceMs?: number;
 }
 
 /**
@@ -98,13 +738,28 @@ export class InsufficientTeamsError extends QueueManagementError {
   }
 }
 
+/**
+ * Reason codes carried by InvalidMatchResultError
+ */
+export type InvalidMatchResultReason =
+  | 'INVALID_RESULT'
+  | 'TEAM_COUNT'
+  | 'TEAM_MISMATCH'
+  | 'INVALID_SCORE'
+  | 'TIED_SCORE'
+  | 'INVALID_TIE_BREAK'
+  | 'IMPOSSIBLE_SCORE';
+
 /**
  * Error thrown when match result is invalid
  */
 export class InvalidMatchResultError extends QueueManagementError {
-  constructor(message: string = 'Invalid match result provided') {
+  readonly reason: InvalidMatchResultReason;
+
+  constructor(message: string = 'Invalid match result provided', reason: InvalidMatchResultReason = 'INVALID_RESULT') {
     super(message);
     this.name = 'InvalidMatchResultError';
+    this.reason = reason;
   }
 }
 
@@ -128,6 +783,16 @@ export class CourtNotFoundError extends QueueManagementError {
   }
 }
 
+/**
+ * Error thrown when a team is neither in the queue nor on a court
+ */
+export class TeamNotFoundError extends QueueManagementError {
+  constructor(message: string = 'Team not found') {
+    super(message);
+    this.name = 'TeamNotFoundError';
+  }
+}
+
 /**
  * Error thrown when queue index is invalid
  */
@@ -147,3 +812,27 @@ export class InvalidMatchIndexError extends QueueManagementError {
     this.name = 'InvalidMatchIndexError';
   }
 }
+
+/**
+ * Error thrown when a scoring format is invalid
+ */
+export class InvalidScoringFormatError extends QueueManagementError {
+  constructor(message: string = 'Invalid scoring format') {
+    super(message);
+    this.name = 'InvalidScoringFormatError';
+  }
+}
+
+/**
+ * Error thrown when a saved state does not match the save format
+ */
+export class InvalidSaveStateError extends QueueManagementError {
+  /** Location of the problem in the save (e.g. "state.courts[0].id"), empty for the save itself */
+  readonly path: string;
+
+  constructor(path: string, problem: string) {
+    super(`Failed to load state: ${path || 'saved state'} ${problem}`);
+    this.name = 'InvalidSaveStateError';
+    this.path = path;
+  }
+}
@@ -0,0 +1,105 @@
+import { type MatchResult, type SavedHistoryEntry, type SystemState, type UndoEntry } from './types';
+import { reviveStateDates } from './save-format';
+
+/**
+ * A state the manager can return to with undo() or redo()
+ * Recorded results are never modified in place (edits and voids replace them), so a step shares them
+ * with the live state and with other steps instead of copying the whole match history.
+ */
+export interface HistoryEntry {
+  /** The change the step undoes (undo stack) or redoes (redo stack) */
+  info: UndoEntry;
+  /** Copy of the state without its match history */
+  state: Omit<SystemState, 'matchHistory'>;
+  /** Results of the step (shared, not copied) */
+  matchHistory: MatchResult[];
+  matchCounter: number;
+}
+
+/**
+ * Record the current state as an undo/redo step
+ * Courts, queue and the other small parts of the state are copied; recorded results are shared.
+ */
+export function captureEntry(state: SystemState, matchCounter: number, info: UndoEntry): HistoryEntry {
+  const { matchHistory, ...rest } = state;
+  return { info, state: structuredClone(rest), matchHistory: [...matchHistory], matchCounter };
+}
+
+/**
+ * Copy a state the same way (for a state that is put back as it is rather than kept as a step)
+ */
+export function copyState(state: SystemState): SystemState {
+  const copy: SystemState = structuredClone({ ...state, matchHistory: [] });
+  copy.matchHistory = [...state.matchHistory];
+  return copy;
+}
+
+/**
+ * Turn a step back into a live state
+ * The step is consumed: its copies become the live state, so it must not be restored twice.
+ */
+export function restoreEntry(entry: HistoryEntry): { state: SystemState; matchCounter: number } {
+  return { state: { ...entry.state, matchHistory: entry.matchHistory }, matchCounter: entry.matchCounter };
+}
+
+/**
+ * Convert an undo or redo stack to its saved form
+ * Each step only stores the results that differ from the next newer step (the current state for
+ * the most recent step), so a save does not repeat the match history once per step.
+ * @param entries - The stack, oldest step first
+ * @param current - Match history of the current state
+ */
+export function serializeHistory(entries: HistoryEntry[], current: MatchResult[]): SavedHistoryEntry[] {
+  const saved: SavedHistoryEntry[] = [];
+  let newer = current;
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const { info, state, matchHistory, matchCounter } = entries[i];
+    const changed: Record<number, MatchResult> = {};
+    matchHistory.forEach((result, index) => {
+      if (result !== newer[index]) {
+        changed[index] = result;
+      }
+    });
+    saved.unshift({ info, state, matchCounter, history: { length: matchHistory.length, changed } });
+    newer = matchHistory;
+  }
+
+  return saved;
+}
+
+/**
+ * Rebuild an undo or redo stack from its saved form (see serializeHistory)
+ * @param saved - The saved stack, oldest step first (validated)
+ * @param current - Match history of the loaded state, with its dates revived
+ */
+export function deserializeHistory(saved: SavedHistoryEntry[], current: MatchResult[]): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  let newer = current;
+
+  for (let i = saved.length - 1; i >= 0; i--) {
+    const { info, state, matchCounter, history } = saved[i];
+    const indices = Object.keys(history.changed).map(Number);
+    const revived: Omit<SystemState, 'matchHistory'> & { matchHistory?: MatchResult[] } = {
+      ...state,
+      matchHistory: indices.map(index => history.changed[index])
+    };
+    reviveStateDates(revived);
+
+    const matchHistory = newer.slice(0, history.length);
+    indices.forEach((index, position) => {
+      matchHistory[index] = revived.matchHistory![position];
+    });
+    delete revived.matchHistory;
+
+    entries.unshift({
+      info: { ...info, timestamp: info.timestamp === null ? null : new Date(info.timestamp) },
+      state: revived,
+      matchHistory,
+      matchCounter
+    });
+    newer = matchHistory;
+  }
+
+  return entries;
+}